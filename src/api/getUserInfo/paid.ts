@@ -43,6 +43,12 @@ export interface PaidSubscription {
   stripe_subscription_id?: string | null;
   payment_intent_id?: string | null;
   invoice_id?: string | null;
+  // Price of this record, when the backend knows it. `amount` is in major
+  // currency units (19.99, not cents); older rows omit all three and the
+  // dashboard falls back to its local price table.
+  amount?: number | null;
+  currency?: string | null;        // ISO 4217, e.g. "USD"
+  interval?: string | null;        // "month" | "year" | "one_time"
 }
 
 export interface PaidStatsResponse {
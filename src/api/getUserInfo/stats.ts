@@ -18,6 +18,15 @@ export interface UserTimeline {
   created_at: string;
 }
 
+// One row of the backend's meaningful-event feed. `event_type` is kept as a
+// plain string because newer backends may emit types this dashboard doesn't
+// know about yet; the frontend filters them.
+export interface ActivityEvent {
+  user_id: string;
+  event_type: string;
+  created_at: string;
+}
+
 export interface MostUsedFunctionItem {
   count: number;
   function: string;
@@ -54,6 +63,10 @@ export interface StatsResponse {
   all_users_timeline: UserTimeline[];
   user_analytics?: UserAnalytics[];
   user_poll_data?: UserPollData[];
+  // Meaningful product events (cheatsheets, deep-learn sessions, canvas
+  // connections, uploads, …). Omitted by older backends, in which case all
+  // activity metrics fall back to conversation_history.
+  events?: ActivityEvent[];
 }
 
 const BASE_URL = import.meta.env.VITE_BASE_URL || 'http://localhost:8000';
@@ -81,6 +94,17 @@ export async function getStats(): Promise<StatsResponse> {
     );
   }
 
-  return response.json();
+  const data: StatsResponse = await response.json();
+  // Keep `events` undefined (not []) when the backend doesn't send it so
+  // consumers can tell "no feed" apart from "no events", and drop malformed
+  // rows from newer backends.
+  if (Array.isArray(data.events)) {
+    data.events = data.events.filter(
+      (e) => !!e && typeof e.user_id === 'string' && typeof e.event_type === 'string' && typeof e.created_at === 'string',
+    );
+  } else {
+    delete data.events;
+  }
+  return data;
 }
 
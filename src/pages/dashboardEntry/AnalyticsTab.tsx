@@ -1,6 +1,7 @@
 import { CountEntry, BreakdownGroup } from './dashboardUtils';
 import { CountPieChart, RankingSection } from './dashboardCharts';
 import type { UserRole } from '../../auth/AuthContext';
+import type { SegmentDimension } from './segmentFilter';
 
 type AnalyticsData = {
   country: CountEntry[];
@@ -15,7 +16,16 @@ type AnalyticsData = {
   studentBreakdown: [string, number][];
 };
 
-export default function AnalyticsTab({ analyticsData, role = 'admin' }: { analyticsData: AnalyticsData; role?: UserRole }) {
+export default function AnalyticsTab({
+  analyticsData,
+  role = 'admin',
+  onFilter,
+}: {
+  analyticsData: AnalyticsData;
+  role?: UserRole;
+  /** Clicking a slice / bar adds that value to the dashboard-wide segment */
+  onFilter: (dim: SegmentDimension, value: string) => void;
+}) {
   const hideCount = role !== 'admin';
 
   const identityBreakdowns: BreakdownGroup[] = [
@@ -38,9 +48,10 @@ export default function AnalyticsTab({ analyticsData, role = 'admin' }: { analyt
           <p className="section-subtitle">
             From <code>user_analytics.country</code> ·{' '}
             {hideCount ? `${analyticsData.country.length} countries` : `${analyticsData.country.reduce((s, e) => s + e.value, 0)} users across ${analyticsData.country.length} countries`}
+            {' '}· click a slice to filter
           </p>
           <div className="chart-container">
-            <CountPieChart data={analyticsData.country} hideCount={hideCount} />
+            <CountPieChart data={analyticsData.country} hideCount={hideCount} onSelect={(v) => onFilter('country', v)} />
           </div>
         </div>
         <div className="section">
@@ -48,9 +59,10 @@ export default function AnalyticsTab({ analyticsData, role = 'admin' }: { analyt
           <p className="section-subtitle">
             From <code>user_analytics.nationality</code> ·{' '}
             {hideCount ? `${analyticsData.nationality.length} nationalities` : `${analyticsData.nationality.reduce((s, e) => s + e.value, 0)} users across ${analyticsData.nationality.length} nationalities`}
+            {' '}· click a slice to filter
           </p>
           <div className="chart-container">
-            <CountPieChart data={analyticsData.nationality} hideCount={hideCount} />
+            <CountPieChart data={analyticsData.nationality} hideCount={hideCount} onSelect={(v) => onFilter('nationality', v)} />
           </div>
         </div>
       </div>
@@ -71,8 +83,9 @@ export default function AnalyticsTab({ analyticsData, role = 'admin' }: { analyt
 
       <RankingSection
         title="Identity 身份排名"
-        subtitle="Number of users per identity, sorted high-to-low. Hover a bar to see the top 5 countries and nationalities for that identity."
+        subtitle="Number of users per identity, sorted high-to-low. Hover a bar to see the top 5 countries and nationalities for that identity; click it to filter the dashboard."
         data={analyticsData.identity}
+        onSelect={(v) => onFilter('identity', v)}
         valueLabel="Users"
         pointLabel="users"
         breakdownGroups={identityBreakdowns}
@@ -81,8 +94,9 @@ export default function AnalyticsTab({ analyticsData, role = 'admin' }: { analyt
 
       <RankingSection
         title="Initial Used Function 初始使用功能排名"
-        subtitle="Number of users whose first action used each function. Hover a bar to see the top 5 countries and nationalities for that function."
+        subtitle="Number of users whose first action used each function. Hover a bar to see the top 5 countries and nationalities for that function; click it to filter the dashboard."
         data={analyticsData.initialUsedFunction}
+        onSelect={(v) => onFilter('initialFunction', v)}
         valueLabel="Users"
         pointLabel="users"
         breakdownGroups={initialFnBreakdowns}
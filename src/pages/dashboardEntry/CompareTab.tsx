@@ -0,0 +1,345 @@
+import { useMemo } from 'react';
+import { StatsResponse } from '../../api/getUserInfo/stats';
+import { PaidStatsResponse, bucketOfBillingReason } from '../../api/getUserInfo/paid';
+import {
+  MeaningfulEvent,
+  RetentionMode,
+  RetentionPoint,
+  CATEGORICAL_COLORS,
+  KEY_RETENTION_DAYS,
+  LIFECYCLE_PERIOD_COUNT,
+  toTzDateKey,
+  todayTzKey,
+  periodStartKey,
+  addPeriods,
+  formatPeriodLabel,
+  buildSignupDayByUser,
+  buildActiveOffsetsByUser,
+  computeRetentionCurve,
+} from './dashboardUtils';
+import {
+  CompareSegment,
+  SEGMENT_DIMENSIONS,
+  EMPTY_SEGMENT,
+  MIN_COMPARE_SEGMENTS,
+  MAX_COMPARE_SEGMENTS,
+  segmentOptions,
+  buildSegmentUserIds,
+} from './segmentFilter';
+import { SegmentValuePicker, MultiLineChart, GroupedBarChart, ChartSeries } from './dashboardCharts';
+
+type SegmentMetrics = {
+  users: number;
+  conversations: number;
+  paidUsers: number;
+  retention: RetentionPoint[]; // one per KEY_RETENTION_DAYS
+};
+
+const formatPct = (num: number, den: number): string =>
+  den > 0 ? `${((num / den) * 100).toFixed(1)}%` : '—';
+
+const seriesKey = (i: number) => `s${i}`;
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export default function CompareTab({
+  stats,
+  paidStats,
+  activityEvents,
+  timeZone,
+  weekStartsOn,
+  savedSegments,
+  setSegments,
+  trendPeriod,
+  setTrendPeriod,
+  retentionMode,
+  setRetentionMode,
+}: {
+  stats: StatsResponse;
+  paidStats: PaidStatsResponse | null;
+  activityEvents: MeaningfulEvent[];
+  timeZone: string;
+  weekStartsOn: number;
+  // [] until the user edits a segment; the defaults then come from the data.
+  savedSegments: CompareSegment[];
+  setSegments: (s: CompareSegment[]) => void;
+  trendPeriod: 'week' | 'month';
+  setTrendPeriod: (p: 'week' | 'month') => void;
+  retentionMode: RetentionMode;
+  setRetentionMode: (m: RetentionMode) => void;
+}) {
+  const options = useMemo(() => segmentOptions(stats), [stats]);
+
+  // Start with the two largest identities (e.g. students vs. professionals),
+  // falling back to two "all users" segments on data without identities.
+  const segments = useMemo<CompareSegment[]>(
+    () =>
+      savedSegments.length > 0
+        ? savedSegments
+        : [0, 1].map((i) => {
+            const identity = options.identity[i]?.name;
+            return identity
+              ? { id: i + 1, name: identity, filter: { ...EMPTY_SEGMENT, identity: [identity] } }
+              : { id: i + 1, name: `Segment ${'AB'[i]}`, filter: EMPTY_SEGMENT };
+          }),
+    [savedSegments, options],
+  );
+
+  const updateSegment = (id: number, patch: Partial<CompareSegment>) =>
+    setSegments(segments.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  const removeSegment = (id: number) => setSegments(segments.filter((s) => s.id !== id));
+  const addSegment = () => {
+    const id = Math.max(0, ...segments.map((s) => s.id)) + 1;
+    setSegments([...segments, { id, name: `Segment ${String.fromCharCode(64 + id)}`, filter: EMPTY_SEGMENT }]);
+  };
+
+  const signupDayByUser = useMemo(
+    () => buildSignupDayByUser(stats.all_users_timeline || [], timeZone),
+    [stats, timeZone],
+  );
+  const activeOffsetsByUser = useMemo(
+    () => buildActiveOffsetsByUser(signupDayByUser, activityEvents, timeZone),
+    [signupDayByUser, activityEvents, timeZone],
+  );
+
+  // An empty segment filter means "all users". The tab is admin-only, so the
+  // paid status filter applies.
+  const segmentUserIds = useMemo<Set<string>[]>(
+    () => segments.map((s) => buildSegmentUserIds(stats, paidStats, s.filter, timeZone, 'admin') ?? new Set(signupDayByUser.keys())),
+    [segments, stats, paidStats, timeZone, signupDayByUser],
+  );
+
+  const metrics = useMemo<SegmentMetrics[]>(() => {
+    const conversationsByUser = new Map<string, number>();
+    for (const c of stats.conversation_history || []) {
+      conversationsByUser.set(c.user_id, (conversationsByUser.get(c.user_id) ?? 0) + 1);
+    }
+    const paidUserIds = new Set(
+      (paidStats?.subscriptions ?? [])
+        .filter((s) => bucketOfBillingReason(s.billing_reason) === 'paid')
+        .map((s) => s.user_id),
+    );
+    const today = todayTzKey(timeZone);
+    const maxDay = Math.max(...KEY_RETENTION_DAYS);
+    return segmentUserIds.map((ids) => {
+      let conversations = 0;
+      let paidUsers = 0;
+      for (const uid of ids) {
+        conversations += conversationsByUser.get(uid) ?? 0;
+        if (paidUserIds.has(uid)) paidUsers += 1;
+      }
+      const curve = computeRetentionCurve(ids, signupDayByUser, activeOffsetsByUser, today, retentionMode, maxDay);
+      return {
+        users: ids.size,
+        conversations,
+        paidUsers,
+        retention: KEY_RETENTION_DAYS.map((d) => curve[d - 1]),
+      };
+    });
+  }, [segmentUserIds, stats, paidStats, signupDayByUser, activeOffsetsByUser, retentionMode, timeZone]);
+
+  const signupTrend = useMemo(() => {
+    const count = LIFECYCLE_PERIOD_COUNT[trendPeriod];
+    const last = periodStartKey(todayTzKey(timeZone), trendPeriod, weekStartsOn);
+    const first = addPeriods(last, trendPeriod, -(count - 1));
+    const rows = new Map<string, Record<string, string | number>>();
+    for (let i = 0; i < count; i++) {
+      const key = addPeriods(first, trendPeriod, i);
+      const row: Record<string, string | number> = { time: formatPeriodLabel(key, trendPeriod) };
+      segments.forEach((_, s) => { row[seriesKey(s)] = 0; });
+      rows.set(key, row);
+    }
+    for (const u of stats.all_users_timeline || []) {
+      const row = rows.get(periodStartKey(toTzDateKey(u.created_at, timeZone), trendPeriod, weekStartsOn));
+      if (!row) continue;
+      segmentUserIds.forEach((ids, s) => {
+        if (ids.has(u.user_id)) row[seriesKey(s)] = (row[seriesKey(s)] as number) + 1;
+      });
+    }
+    return Array.from(rows.values());
+  }, [stats, segments, segmentUserIds, trendPeriod, weekStartsOn, timeZone]);
+
+  const series: ChartSeries[] = segments.map((s, i) => ({
+    key: seriesKey(i),
+    label: s.name || `Segment ${i + 1}`,
+    color: CATEGORICAL_COLORS[i % CATEGORICAL_COLORS.length],
+  }));
+
+  // Immature days (no segment user old enough) are left out rather than
+  // drawn as 0%.
+  const retentionBars = KEY_RETENTION_DAYS.map((day, d) => {
+    const row: Record<string, string | number> = { time: `D${day}` };
+    metrics.forEach((m, i) => {
+      const p = m.retention[d];
+      if (p?.hasData) row[seriesKey(i)] = p.ratePct;
+    });
+    return row;
+  });
+  const engagementBars = [
+    Object.fromEntries([
+      ['time', 'Conversations per user'],
+      ...metrics.map((m, i) => [seriesKey(i), m.users > 0 ? m.conversations / m.users : 0]),
+    ]),
+  ];
+  const conversionBars = [
+    Object.fromEntries([
+      ['time', 'Paid conversion'],
+      ...metrics.map((m, i) => [seriesKey(i), m.users > 0 ? (m.paidUsers / m.users) * 100 : 0]),
+    ]),
+  ];
+
+  return (
+    <>
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Segment Comparison 分群对比</h2>
+            <p className="section-subtitle">
+              Define {MIN_COMPARE_SEGMENTS}–{MAX_COMPARE_SEGMENTS} segments from user attributes; a segment with no values picked
+              is every user. Segments may overlap. The dashboard-wide segment filter still applies on top.
+            </p>
+          </div>
+        </div>
+        <div className="compare-segments">
+          {segments.map((seg, i) => (
+            <div className="compare-segment-editor" key={seg.id}>
+              <div className="compare-segment-header">
+                <span className="compare-segment-swatch" style={{ background: series[i].color }} />
+                <input
+                  type="text"
+                  value={seg.name}
+                  placeholder={`Segment ${i + 1}`}
+                  onChange={(e) => updateSegment(seg.id, { name: e.target.value })}
+                />
+                <span className="compare-segment-count">{metrics[i]?.users.toLocaleString()} users</span>
+                {segments.length > MIN_COMPARE_SEGMENTS && (
+                  <button type="button" className="signup-range-reset" onClick={() => removeSegment(seg.id)}>
+                    Remove
+                  </button>
+                )}
+              </div>
+              <div className="compare-segment-filters">
+                {SEGMENT_DIMENSIONS.map(({ key, label }) => (
+                  <SegmentValuePicker
+                    key={key}
+                    label={label}
+                    options={options[key]}
+                    value={seg.filter[key]}
+                    onChange={(next) => updateSegment(seg.id, { filter: { ...seg.filter, [key]: next } })}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+          {segments.length < MAX_COMPARE_SEGMENTS && (
+            <button type="button" className="signup-range-reset" onClick={addSegment}>+ Add segment</button>
+          )}
+        </div>
+      </div>
+
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Summary</h2>
+          </div>
+        </div>
+        <div className="table-container">
+          <table className="numeric-table">
+            <thead>
+              <tr>
+                <th>Segment</th>
+                <th>Users</th>
+                <th>Conversations / user</th>
+                {paidStats && <th>Paid conversion</th>}
+                {KEY_RETENTION_DAYS.map((d) => <th key={d}>D{d} {retentionMode === 'exact' ? 'exact' : 'rolling'}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {segments.map((seg, i) => {
+                const m = metrics[i];
+                return (
+                  <tr key={seg.id}>
+                    <td>
+                      <span className="compare-segment-swatch" style={{ background: series[i].color }} /> {series[i].label}
+                    </td>
+                    <td>{m.users.toLocaleString()}</td>
+                    <td>{m.users > 0 ? (m.conversations / m.users).toFixed(2) : '—'}</td>
+                    {paidStats && (
+                      <td>
+                        {formatPct(m.paidUsers, m.users)}
+                        <span style={{ color: '#999', fontSize: 11, marginLeft: 4 }}>({m.paidUsers})</span>
+                      </td>
+                    )}
+                    {m.retention.map((p, d) => (
+                      <td key={d} title={p?.hasData ? `${p.returned} / ${p.eligible} eligible users` : undefined}>
+                        {p?.hasData ? `${p.ratePct.toFixed(1)}%` : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Signup Trend</h2>
+            <p className="section-subtitle">New signups per {trendPeriod} in each segment.</p>
+          </div>
+          <div className="stat-segmented">
+            <button type="button" className={`stat-segmented-btn${trendPeriod === 'week' ? ' active' : ''}`} onClick={() => setTrendPeriod('week')}>Weekly</button>
+            <button type="button" className={`stat-segmented-btn${trendPeriod === 'month' ? ' active' : ''}`} onClick={() => setTrendPeriod('month')}>Monthly</button>
+          </div>
+        </div>
+        <div className="chart-container">
+          <MultiLineChart data={signupTrend} series={series} />
+        </div>
+      </div>
+
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Day-N Retention</h2>
+            <p className="section-subtitle">
+              {retentionMode === 'exact' ? 'Active on exactly day N' : 'Active on day N or later'} after signup,
+              among segment users who signed up at least N days ago.
+            </p>
+          </div>
+          <div className="stat-segmented">
+            <button type="button" className={`stat-segmented-btn${retentionMode === 'exact' ? ' active' : ''}`} onClick={() => setRetentionMode('exact')}>Exact-day</button>
+            <button type="button" className={`stat-segmented-btn${retentionMode === 'rolling' ? ' active' : ''}`} onClick={() => setRetentionMode('rolling')}>Rolling</button>
+          </div>
+        </div>
+        <div className="chart-container">
+          <GroupedBarChart data={retentionBars} series={series} valueFormat={(v) => `${v.toFixed(1)}%`} />
+        </div>
+      </div>
+
+      <div className="chart-grid-2">
+        <div className="section">
+          <h2>Conversations per User</h2>
+          <p className="section-subtitle">All-time conversations divided by segment users.</p>
+          <div className="chart-container">
+            <GroupedBarChart data={engagementBars} series={series} valueFormat={(v) => v.toFixed(2)} height={260} />
+          </div>
+        </div>
+        <div className="section">
+          <h2>Paid Conversion</h2>
+          <p className="section-subtitle">Share of segment users with at least one paid subscription.</p>
+          <div className="chart-container">
+            {paidStats ? (
+              <GroupedBarChart data={conversionBars} series={series} valueFormat={(v) => `${v.toFixed(1)}%`} height={260} />
+            ) : (
+              <div className="empty-state">Paid stats failed to load</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
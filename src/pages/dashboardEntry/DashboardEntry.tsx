@@ -1,4 +1,4 @@
-import { useEffect, useState, useMemo } from 'react';
+import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import {
   getStats,
   StatsResponse,
@@ -8,67 +8,284 @@ import {
 import { getPaidStats, PaidStatsResponse } from '../../api/getUserInfo/paid';
 import { useAuth } from '../../auth/AuthContext';
 import PaidTab from './PaidTab';
+import { PaidViewState } from './paidViewState';
+import { FunnelStep, FunnelBreakdown } from './funnelSteps';
+import {
+  ActivityTypeSelector,
+  CompareModeSelector,
+  TimezonePicker,
+  SavedViewsMenu,
+  SegmentFilterBar,
+  SegmentFilterChips,
+} from './dashboardCharts';
 import GeneralTab from './GeneralTab';
 import RetentionTab from './RetentionTab';
 import AnalyticsTab from './AnalyticsTab';
 import PollDataTab from './PollDataTab';
-import TopUsersTab from './TopUsersTab';
+import TopUsersTab, { PowerUserSection } from './TopUsersTab';
+import FunnelTab from './FunnelTab';
+import CompareTab from './CompareTab';
 import {
   TimeRange,
+  BucketUnit,
+  ChartGranularity,
+  CompareMode,
+  CompareStats,
+  StatDelta,
+  compareDateWindow,
+  compareOffsetMs,
+  MAX_CHART_BUCKETS,
+  resolveChartWindow,
+  resolveGranularity,
+  estimateBucketCount,
+  floorToBucket,
+  nextBucket,
+  formatBucketLabel,
   MauMode,
   CountEntry,
   RetentionPoint,
-  TIMEZONE_OPTIONS,
-  BROWSER_OFFSET_MS,
+  RetentionMode,
+  CohortRow,
+  LifecyclePoint,
+  StickinessPoint,
+  PowerUserPoint,
+  DelayBucket,
+  FIRST_CONVERSATION_BUCKETS,
+  HourWeekdayGrid,
+  buildHourWeekdayGrid,
+  DailyActivity,
+  buildDailyActivity,
+  PeriodUnit,
+  LIFECYCLE_PERIOD_COUNT,
   todayTzKey,
   addDays,
   toTzDateKey,
   parseInTz,
-  getTzNow,
-  daysBetweenDateKeys,
+  periodStartKey,
+  addPeriods,
+  formatPeriodLabel,
+  mauWindowStart,
   aggregateCounts,
   aggregateMostUsedFunctions,
   aggregateJsonbColumn,
   topBreakdownByCategory,
   withOtherBucket,
   extractLoginIpCountries,
+  MeaningfulEvent,
+  MeaningfulEventType,
   collectMeaningfulEvents,
+  buildActiveDaysByUser,
+  activeDayHistogram,
+  buildSignupDayByUser,
+  buildActiveOffsetsByUser,
+  computeRetentionCurve,
   MAX_RETENTION_DAY,
+  MAX_RETENTION_WEEK,
+  COHORT_MAX_ROWS,
+  RETENTION_BREAKDOWN_MIN_ELIGIBLE,
+  RANKING_MAX_BARS,
 } from './dashboardUtils';
+import {
+  DashboardTab,
+  DashboardViewState,
+  DateRange,
+  viewStateFromUrl,
+  viewStateFromUrlString,
+  viewStateToUrl,
+} from './dashboardUrlState';
+import { defaultSavedView } from './savedViews';
+import {
+  SegmentFilter,
+  CompareSegment,
+  SegmentDimension,
+  segmentOptions,
+  segmentValuesOf,
+  buildSegmentUserIds,
+  scopeStats,
+  scopePaidStats,
+} from './segmentFilter';
 import './DashboardEntry.css';
 
-type DashboardTab = 'general' | 'retention' | 'analytics' | 'pollData' | 'topUsers' | 'paid';
-
 export default function DashboardEntry() {
   const { auth, logout } = useAuth();
   const role = auth?.role ?? 'general';
 
-  const [stats, setStats] = useState<StatsResponse | null>(null);
-  const [paidStats, setPaidStats] = useState<PaidStatsResponse | null>(null);
+  const [fetchedStats, setFetchedStats] = useState<StatsResponse | null>(null);
+  const [fetchedPaidStats, setFetchedPaidStats] = useState<PaidStatsResponse | null>(null);
   const [paidError, setPaidError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<DashboardTab>('general');
-  const [timeRange, setTimeRange] = useState<TimeRange>('7d');
-  const [signupRange, setSignupRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
-  const [retentionMode, setRetentionMode] = useState<'exact' | 'rolling'>('exact');
-
-  const [tzKey, setTzKey] = useState<string>('auto');
-  const tzOffsetMs = useMemo<number>(
-    () => TIMEZONE_OPTIONS.find((o) => o.key === tzKey)?.offsetMs ?? BROWSER_OFFSET_MS,
-    [tzKey],
-  );
+  // View state is seeded from (and kept in sync with) the URL; see dashboardUrlState.
+  // A bare "/" opens the role's default saved view, if any.
+  const [initialView] = useState(() => {
+    const saved = defaultSavedView(role);
+    const isBare = window.location.pathname === '/' && !window.location.search;
+    return saved && isBare ? viewStateFromUrlString(saved.url, role) : viewStateFromUrl(window.location, role);
+  });
+  const [activeTab, setActiveTab] = useState<DashboardTab>(initialView.tab);
+  const [timeRange, setTimeRange] = useState<TimeRange>(initialView.timeRange);
+  // Only used when timeRange === 'custom'
+  const [chartRange, setChartRange] = useState<DateRange>(initialView.chartRange);
+  const [chartGranularity, setChartGranularity] = useState<ChartGranularity>(initialView.chartGranularity);
+  const [weekStartsOn, setWeekStartsOn] = useState(initialView.weekStartsOn);
+  const [compareMode, setCompareMode] = useState<CompareMode>(initialView.compareMode);
+  // Start of the comparison window when compareMode === 'custom'
+  const [compareStart, setCompareStart] = useState<string>(initialView.compareStart);
+  const [lifecyclePeriod, setLifecyclePeriod] = useState<PeriodUnit>(initialView.lifecyclePeriod);
+  const [signupRange, setSignupRange] = useState<DateRange>(initialView.signupRange);
+  const [retentionMode, setRetentionMode] = useState<RetentionMode>(initialView.retentionMode);
+  const [retentionOverlays, setRetentionOverlays] = useState<DateRange[]>(initialView.retentionOverlays);
+  const [retentionBreakdownDim, setRetentionBreakdownDim] = useState<SegmentDimension>(initialView.retentionBreakdown);
+  const [minSampleSize, setMinSampleSize] = useState(initialView.minSampleSize);
+  const [firstConversationRange, setFirstConversationRange] = useState<DateRange>(initialView.firstConversationRange);
+  const [cohortPeriod, setCohortPeriod] = useState<'week' | 'month'>(initialView.cohortPeriod);
+  const [cohortColumns, setCohortColumns] = useState<'day' | 'week'>(initialView.cohortColumns);
 
-  const [dauDate, setDauDate] = useState<string>(() => todayTzKey(BROWSER_OFFSET_MS));
-  const [mauMode, setMauMode] = useState<MauMode>('rolling');
-  const [mauMonth, setMauMonth] = useState<string>(() => todayTzKey(BROWSER_OFFSET_MS).slice(0, 7));
-  const [mauEndDate, setMauEndDate] = useState<string>(() => todayTzKey(BROWSER_OFFSET_MS));
+  const [activeEventTypes, setActiveEventTypes] = useState<MeaningfulEventType[]>(initialView.activeEventTypes);
+  const [timeZone, setTimeZone] = useState<string>(initialView.timeZone);
 
-  const [topUsersRange, setTopUsersRange] = useState<{ start: string; end: string }>(() => {
-    const end = todayTzKey(BROWSER_OFFSET_MS);
-    return { start: addDays(end, -29), end };
-  });
-  const [topK, setTopK] = useState(20);
+  const [dauDate, setDauDate] = useState<string>(initialView.dauDate);
+  const [mauMode, setMauMode] = useState<MauMode>(initialView.mauMode);
+  const [mauMonth, setMauMonth] = useState<string>(initialView.mauMonth);
+  const [mauEndDate, setMauEndDate] = useState<string>(initialView.mauEndDate);
+  const [stickinessRange, setStickinessRange] = useState<DateRange>(initialView.stickinessRange);
+
+  const [weeklyPatternRange, setWeeklyPatternRange] = useState<DateRange>(initialView.weeklyPatternRange);
+  const [weeklyPatternMetric, setWeeklyPatternMetric] = useState<'conversations' | 'users'>(initialView.weeklyPatternMetric);
+  const [weeklyPatternNormalize, setWeeklyPatternNormalize] = useState(initialView.weeklyPatternNormalize);
+  const [calendarMetric, setCalendarMetric] = useState<'conversations' | 'users'>(initialView.calendarMetric);
+  const [calendarYear, setCalendarYear] = useState<string>(initialView.calendarYear);
+
+  const [topUsersRange, setTopUsersRange] = useState<DateRange>(initialView.topUsersRange);
+  const [topK, setTopK] = useState(initialView.topK);
+  const [powerUserWindow, setPowerUserWindow] = useState<7 | 30>(initialView.powerUserWindow);
+  const [powerUserEnd, setPowerUserEnd] = useState<string>(initialView.powerUserEnd);
+  // '' = comparison off; otherwise the end date of the second window.
+  const [powerUserCompareEnd, setPowerUserCompareEnd] = useState<string>(initialView.powerUserCompareEnd);
+  const [paidView, setPaidView] = useState<PaidViewState>(initialView.paidView);
+  const [segment, setSegment] = useState<SegmentFilter>(initialView.segment);
+  const [compareSegments, setCompareSegments] = useState<CompareSegment[]>(initialView.compareSegments);
+  const [compareTrendPeriod, setCompareTrendPeriod] = useState<'week' | 'month'>(initialView.compareTrendPeriod);
+  const [compareRetentionMode, setCompareRetentionMode] = useState<RetentionMode>(initialView.compareRetentionMode);
+  const [funnelSignupRange, setFunnelSignupRange] = useState<DateRange>(initialView.funnelSignupRange);
+  const [funnelSteps, setFunnelSteps] = useState<FunnelStep[]>(initialView.funnelSteps);
+  const [funnelBreakdown, setFunnelBreakdown] = useState<FunnelBreakdown>(initialView.funnelBreakdown);
+
+  const viewState = useMemo<DashboardViewState>(() => ({
+    tab: activeTab,
+    timeZone,
+    activeEventTypes,
+    timeRange,
+    chartRange,
+    chartGranularity,
+    weekStartsOn,
+    compareMode,
+    compareStart,
+    lifecyclePeriod,
+    signupRange,
+    retentionMode,
+    retentionOverlays,
+    retentionBreakdown: retentionBreakdownDim,
+    minSampleSize,
+    firstConversationRange,
+    cohortPeriod,
+    cohortColumns,
+    dauDate,
+    mauMode,
+    mauMonth,
+    mauEndDate,
+    stickinessRange,
+    weeklyPatternRange,
+    weeklyPatternMetric,
+    weeklyPatternNormalize,
+    calendarMetric,
+    calendarYear,
+    topUsersRange,
+    topK,
+    powerUserWindow,
+    powerUserEnd,
+    powerUserCompareEnd,
+    paidView,
+    segment,
+    compareSegments,
+    compareTrendPeriod,
+    compareRetentionMode,
+    funnelSignupRange,
+    funnelSteps,
+    funnelBreakdown,
+  }), [
+    activeTab, timeZone, activeEventTypes, timeRange, chartRange, chartGranularity, weekStartsOn,
+    compareMode, compareStart, lifecyclePeriod, signupRange, retentionMode, retentionOverlays, retentionBreakdownDim, minSampleSize, firstConversationRange,
+    cohortPeriod, cohortColumns, dauDate, mauMode, mauMonth, mauEndDate, stickinessRange,
+    weeklyPatternRange, weeklyPatternMetric, weeklyPatternNormalize, calendarMetric, calendarYear,
+    topUsersRange, topK, powerUserWindow, powerUserEnd, powerUserCompareEnd, paidView,
+    segment, compareSegments, compareTrendPeriod, compareRetentionMode, funnelSignupRange, funnelSteps, funnelBreakdown,
+  ]);
+
+  const applyViewState = useCallback((v: DashboardViewState) => {
+    setActiveTab(v.tab);
+    setTimeZone(v.timeZone);
+    setActiveEventTypes(v.activeEventTypes);
+    setTimeRange(v.timeRange);
+    setChartRange(v.chartRange);
+    setChartGranularity(v.chartGranularity);
+    setWeekStartsOn(v.weekStartsOn);
+    setCompareMode(v.compareMode);
+    setCompareStart(v.compareStart);
+    setLifecyclePeriod(v.lifecyclePeriod);
+    setSignupRange(v.signupRange);
+    setRetentionMode(v.retentionMode);
+    setRetentionOverlays(v.retentionOverlays);
+    setRetentionBreakdownDim(v.retentionBreakdown);
+    setMinSampleSize(v.minSampleSize);
+    setFirstConversationRange(v.firstConversationRange);
+    setCohortPeriod(v.cohortPeriod);
+    setCohortColumns(v.cohortColumns);
+    setDauDate(v.dauDate);
+    setMauMode(v.mauMode);
+    setMauMonth(v.mauMonth);
+    setMauEndDate(v.mauEndDate);
+    setStickinessRange(v.stickinessRange);
+    setWeeklyPatternRange(v.weeklyPatternRange);
+    setWeeklyPatternMetric(v.weeklyPatternMetric);
+    setWeeklyPatternNormalize(v.weeklyPatternNormalize);
+    setCalendarMetric(v.calendarMetric);
+    setCalendarYear(v.calendarYear);
+    setTopUsersRange(v.topUsersRange);
+    setTopK(v.topK);
+    setPowerUserWindow(v.powerUserWindow);
+    setPowerUserEnd(v.powerUserEnd);
+    setPowerUserCompareEnd(v.powerUserCompareEnd);
+    setPaidView(v.paidView);
+    setSegment(v.segment);
+    setCompareSegments(v.compareSegments);
+    setCompareTrendPeriod(v.compareTrendPeriod);
+    setCompareRetentionMode(v.compareRetentionMode);
+    setFunnelSignupRange(v.funnelSignupRange);
+    setFunnelSteps(v.funnelSteps);
+    setFunnelBreakdown(v.funnelBreakdown);
+  }, []);
+
+  // Tab switches add a history entry; every other change rewrites the
+  // current one, so back/forward steps between tabs (with their filters).
+  const lastUrlTabRef = useRef(initialView.tab);
+  useEffect(() => {
+    const url = viewStateToUrl(viewState);
+    if (url === window.location.pathname + window.location.search) return;
+    if (viewState.tab !== lastUrlTabRef.current) window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+    lastUrlTabRef.current = viewState.tab;
+  }, [viewState]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      const next = viewStateFromUrl(window.location, role);
+      lastUrlTabRef.current = next.tab;
+      applyViewState(next);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [role, applyViewState]);
 
   useEffect(() => {
     let cancelled = false;
@@ -78,13 +295,13 @@ export default function DashboardEntry() {
         const [statsResult, paidResult] = await Promise.allSettled([getStats(), getPaidStats()]);
         if (cancelled) return;
         if (statsResult.status === 'fulfilled') {
-          setStats(statsResult.value);
+          setFetchedStats(statsResult.value);
           setError(null);
         } else {
           setError(statsResult.reason instanceof Error ? statsResult.reason.message : 'Failed to fetch stats');
         }
         if (paidResult.status === 'fulfilled') {
-          setPaidStats(paidResult.value);
+          setFetchedPaidStats(paidResult.value);
           setPaidError(null);
         } else {
           setPaidError(paidResult.reason instanceof Error ? paidResult.reason.message : 'Failed to fetch paid stats');
@@ -97,123 +314,338 @@ export default function DashboardEntry() {
     return () => { cancelled = true; };
   }, []);
 
+  // Every metric below is built from the segment-scoped responses; the
+  // unscoped ones only feed the filter bar's options.
+  const segmentOptionsByDim = useMemo(
+    () => (fetchedStats ? segmentOptions(fetchedStats) : null),
+    [fetchedStats],
+  );
+  const segmentUserIds = useMemo(
+    () => (fetchedStats ? buildSegmentUserIds(fetchedStats, fetchedPaidStats, segment, timeZone, role) : null),
+    [fetchedStats, fetchedPaidStats, segment, timeZone, role],
+  );
+  const stats = useMemo(
+    () => (fetchedStats && segmentUserIds ? scopeStats(fetchedStats, segmentUserIds) : fetchedStats),
+    [fetchedStats, segmentUserIds],
+  );
+  const paidStats = useMemo(
+    () => (fetchedPaidStats && segmentUserIds ? scopePaidStats(fetchedPaidStats, segmentUserIds) : fetchedPaidStats),
+    [fetchedPaidStats, segmentUserIds],
+  );
+
+  // Everything "active"-based (DAU/MAU, retention, lifecycle, top users…)
+  // counts these events; activeEventTypes is the header multi-select.
+  const activityEvents = useMemo<MeaningfulEvent[]>(
+    () => (stats ? collectMeaningfulEvents(stats, activeEventTypes) : []),
+    [stats, activeEventTypes],
+  );
+  // Chart clicks (Analytics / Poll Data) add the clicked value to the segment.
+  const addSegmentValue = useCallback((dim: SegmentDimension, value: string) => {
+    setSegment((prev) => (prev[dim].includes(value) ? prev : { ...prev, [dim]: [...prev[dim], value] }));
+  }, []);
+  // Without an events feed, activity is built from conversations alone.
+  const activityLabel =
+    !stats?.events || (activeEventTypes.length === 1 && activeEventTypes[0] === 'send_message')
+      ? 'Conversations'
+      : 'Events';
+
   const mauWindow = useMemo<{ start: string; end: string; label: string }>(() => {
     if (mauMode === 'rolling') {
-      const today = todayTzKey(tzOffsetMs);
+      const today = todayTzKey(timeZone);
       return { start: addDays(today, -29), end: today, label: 'Last 30 days' };
     }
     if (mauMode === 'month') {
       const [y, m] = mauMonth.split('-').map(Number);
       if (!y || !m) {
-        const today = todayTzKey(tzOffsetMs);
+        const today = todayTzKey(timeZone);
         return { start: today, end: today, label: 'Invalid month' };
       }
       const start = new Date(Date.UTC(y, m - 1, 1)).toISOString().slice(0, 10);
       const end = new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
       return { start, end, label: `${y}-${String(m).padStart(2, '0')}` };
     }
-    const end = mauEndDate || todayTzKey(tzOffsetMs);
+    const end = mauEndDate || todayTzKey(timeZone);
     return { start: addDays(end, -29), end, label: `30 days ending ${end}` };
-  }, [mauMode, mauMonth, mauEndDate, tzOffsetMs]);
+  }, [mauMode, mauMonth, mauEndDate, timeZone]);
 
   const dauStats = useMemo(() => {
     if (!stats) return { activeUsers: 0, newSignups: 0 };
     const day = dauDate;
     const activeSet = new Set<string>();
-    for (const c of stats.conversation_history || []) {
-      if (toTzDateKey(c.created_at, tzOffsetMs) === day) activeSet.add(c.user_id);
+    for (const e of activityEvents) {
+      if (toTzDateKey(e.created_at, timeZone) === day) activeSet.add(e.user_id);
     }
     let newSignups = 0;
     for (const u of stats.all_users_timeline || []) {
-      if (toTzDateKey(u.created_at, tzOffsetMs) === day) newSignups += 1;
+      if (toTzDateKey(u.created_at, timeZone) === day) newSignups += 1;
     }
     return { activeUsers: activeSet.size, newSignups };
-  }, [stats, dauDate, tzOffsetMs]);
+  }, [stats, activityEvents, dauDate, timeZone]);
 
   const mauStats = useMemo(() => {
     if (!stats) return { activeUsers: 0, newSignups: 0 };
     const { start, end } = mauWindow;
     const activeSet = new Set<string>();
-    for (const c of stats.conversation_history || []) {
-      const day = toTzDateKey(c.created_at, tzOffsetMs);
-      if (day >= start && day <= end) activeSet.add(c.user_id);
+    for (const e of activityEvents) {
+      const day = toTzDateKey(e.created_at, timeZone);
+      if (day >= start && day <= end) activeSet.add(e.user_id);
     }
     let newSignups = 0;
     for (const u of stats.all_users_timeline || []) {
-      const day = toTzDateKey(u.created_at, tzOffsetMs);
+      const day = toTzDateKey(u.created_at, timeZone);
       if (day >= start && day <= end) newSignups += 1;
     }
     return { activeUsers: activeSet.size, newSignups };
-  }, [stats, mauWindow, tzOffsetMs]);
+  }, [stats, activityEvents, mauWindow, timeZone]);
+
+  // Card values for the comparison period. DAU / MAU compare their own
+  // windows; the cumulative totals compare the General chart window's end with
+  // the comparison window's end.
+  const compareStats = useMemo<CompareStats>(() => {
+    const none: CompareStats = { totalUsers: null, conversations: null, dau: null, mau: null };
+    if (!stats || compareMode === 'off') return none;
+    const countActive = (start: string, end: string) => {
+      const set = new Set<string>();
+      for (const e of activityEvents) {
+        const day = toTzDateKey(e.created_at, timeZone);
+        if (day >= start && day <= end) set.add(e.user_id);
+      }
+      return set.size;
+    };
+    const countUpTo = (rows: Array<{ created_at: string }>, toMs: number) => {
+      let n = 0;
+      for (const r of rows) if (parseInTz(r.created_at, timeZone).getTime() <= toMs) n += 1;
+      return n;
+    };
+    const windowLabel = (w: { start: string; end: string }) => `vs ${w.start === w.end ? w.start : `${w.start} → ${w.end}`}`;
+
+    // The DAU date input may be cleared; there's nothing to compare then.
+    const dauWin = dauDate ? compareDateWindow(compareMode, { start: dauDate, end: dauDate }, compareStart) : null;
+    // For calendar months "previous period" means the previous month.
+    const mauWin = compareDateWindow(mauMode === 'month' && compareMode === 'previous' ? 'lastMonth' : compareMode, mauWindow, compareStart);
+    const { startMs, endMs } = resolveChartWindow(timeRange, chartRange, timeZone);
+    const offset = compareOffsetMs(compareMode, startMs, endMs, compareStart);
+    const users = stats.all_users_timeline || [];
+    const conversations = stats.conversation_history || [];
+    // Running totals at the chart window's end, which may differ from the
+    // all-time number on the card, so the label names the compared value.
+    const totalDelta = (rows: Array<{ created_at: string }>): StatDelta | null => {
+      if (offset == null) return null;
+      const current = countUpTo(rows, endMs);
+      const dateOf = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+      return {
+        current,
+        previous: countUpTo(rows, endMs - offset),
+        label: `${dateOf(endMs)}: ${current.toLocaleString()} vs ${dateOf(endMs - offset)}`,
+      };
+    };
+    return {
+      totalUsers: totalDelta(users),
+      conversations: totalDelta(conversations),
+      dau: dauWin ? { current: dauStats.activeUsers, previous: countActive(dauWin.start, dauWin.end), label: windowLabel(dauWin) } : null,
+      mau: mauWin ? { current: mauStats.activeUsers, previous: countActive(mauWin.start, mauWin.end), label: windowLabel(mauWin) } : null,
+    };
+  }, [stats, activityEvents, compareMode, compareStart, dauDate, dauStats, mauMode, mauWindow, mauStats, timeRange, chartRange, timeZone]);
 
   const dauMauRatio = mauStats.activeUsers > 0 ? dauStats.activeUsers / mauStats.activeUsers : 0;
 
+  // Daily conversation counts / active users for the calendar heatmaps.
+  const dailyActivity = useMemo<DailyActivity | null>(() => {
+    if (!stats) return null;
+    return buildDailyActivity(stats.conversation_history || [], timeZone);
+  }, [stats, timeZone]);
+
+  // Per-user daily counts of the header-selected activity, for the per-user
+  // calendars next to the activity rankings.
+  const activityByUser = useMemo(
+    () => buildDailyActivity(activityEvents, timeZone).byUser,
+    [activityEvents, timeZone],
+  );
+
+  // Conversations and distinct users by local weekday × hour of day.
+  const weeklyPattern = useMemo<HourWeekdayGrid | null>(() => {
+    if (!stats) return null;
+    return buildHourWeekdayGrid(stats.conversation_history || [], timeZone, weeklyPatternRange);
+  }, [stats, timeZone, weeklyPatternRange]);
+
+  // Daily DAU / WAU / MAU over stickinessRange. Each active day marks every
+  // day whose window covers it: the next 7 days for WAU, and for MAU the days
+  // whose mauWindowStart (per mauMode) is on or before it.
+  const stickinessSeries = useMemo<StickinessPoint[]>(() => {
+    if (!stats) return [];
+    const { start, end } = stickinessRange;
+    if (!start || !end || start > end) return [];
+    const activeDays = new Set<string>();
+    for (const e of activityEvents) {
+      activeDays.add(`${toTzDateKey(e.created_at, timeZone)}|${e.user_id}`);
+    }
+    const dau = new Map<string, Set<string>>();
+    const wau = new Map<string, Set<string>>();
+    const mau = new Map<string, Set<string>>();
+    const mark = (m: Map<string, Set<string>>, day: string, uid: string) => {
+      if (day < start || day > end) return;
+      let set = m.get(day);
+      if (!set) { set = new Set(); m.set(day, set); }
+      set.add(uid);
+    };
+    for (const entry of activeDays) {
+      const [day, uid] = entry.split('|');
+      if (day > end) continue;
+      mark(dau, day, uid);
+      for (let i = 0; i < 7; i++) mark(wau, addDays(day, i), uid);
+      for (let d = day; mauWindowStart(d, mauMode) <= day && d <= end; d = addDays(d, 1)) mark(mau, d, uid);
+    }
+    const points: StickinessPoint[] = [];
+    for (let d = start; d <= end; d = addDays(d, 1)) {
+      const dauCount = dau.get(d)?.size ?? 0;
+      const wauCount = wau.get(d)?.size ?? 0;
+      const mauCount = mau.get(d)?.size ?? 0;
+      points.push({
+        time: d,
+        dau: dauCount,
+        wau: wauCount,
+        mau: mauCount,
+        dauMau: mauCount > 0 ? dauCount / mauCount : 0,
+        wauMau: mauCount > 0 ? wauCount / mauCount : 0,
+      });
+    }
+    return points;
+  }, [stats, activityEvents, stickinessRange, mauMode, timeZone]);
+
   const signupBounds = useMemo<{ min: string; max: string } | null>(() => {
-    if (!stats?.all_users_timeline?.length) return null;
+    // Unscoped, so the segment's own signup filter can span every signup.
+    if (!fetchedStats?.all_users_timeline?.length) return null;
     let min: string | null = null;
     let max: string | null = null;
-    for (const u of stats.all_users_timeline) {
-      const d = toTzDateKey(u.created_at, tzOffsetMs);
+    for (const u of fetchedStats.all_users_timeline) {
+      const d = toTzDateKey(u.created_at, timeZone);
       if (min === null || d < min) min = d;
       if (max === null || d > max) max = d;
     }
     return min && max ? { min, max } : null;
-  }, [stats, tzOffsetMs]);
+  }, [fetchedStats, timeZone]);
 
   const cumulativeRetention = useMemo<RetentionPoint[]>(() => {
     if (!stats) return [];
-    const today = todayTzKey(tzOffsetMs);
-    const start = signupRange.start || null;
-    const end = signupRange.end || null;
+    const signupDayByUser = buildSignupDayByUser(stats.all_users_timeline || [], timeZone, signupRange);
+    const activeOnDayByUser = buildActiveOffsetsByUser(signupDayByUser, activityEvents, timeZone);
+    return computeRetentionCurve(signupDayByUser.keys(), signupDayByUser, activeOnDayByUser, todayTzKey(timeZone), retentionMode);
+  }, [stats, activityEvents, signupRange, retentionMode, timeZone]);
 
-    const signupDayByUser = new Map<string, string>();
-    for (const u of stats.all_users_timeline || []) {
-      const day = toTzDateKey(u.created_at, tzOffsetMs);
-      if (start && day < start) continue;
-      if (end && day > end) continue;
-      if (!signupDayByUser.has(u.user_id)) signupDayByUser.set(u.user_id, day);
-    }
+  // One curve per overlay cohort, on the same eligibility rules as above.
+  const retentionOverlayCurves = useMemo<RetentionPoint[][]>(() => {
+    if (!stats || retentionOverlays.length === 0) return [];
+    const signupDayByUser = buildSignupDayByUser(stats.all_users_timeline || [], timeZone);
+    const activeOnDayByUser = buildActiveOffsetsByUser(signupDayByUser, activityEvents, timeZone);
+    const today = todayTzKey(timeZone);
+    return retentionOverlays.map(({ start, end }) => {
+      const userIds: string[] = [];
+      for (const [uid, day] of signupDayByUser) {
+        if ((!start || day >= start) && (!end || day <= end)) userIds.push(uid);
+      }
+      return computeRetentionCurve(userIds, signupDayByUser, activeOnDayByUser, today, retentionMode);
+    });
+  }, [stats, activityEvents, retentionOverlays, retentionMode, timeZone]);
 
-    const activeOnDayByUser = new Map<string, Set<number>>();
-    for (const e of collectMeaningfulEvents(stats)) {
-      const signupDay = signupDayByUser.get(e.user_id);
-      if (!signupDay) continue;
-      const diff = daysBetweenDateKeys(signupDay, toTzDateKey(e.created_at, tzOffsetMs));
-      if (diff < 1) continue;
-      let set = activeOnDayByUser.get(e.user_id);
-      if (!set) { set = new Set(); activeOnDayByUser.set(e.user_id, set); }
-      set.add(diff);
+  // cumulativeRetention split by one user attribute (first value for
+  // multi-valued ones). Categories under RETENTION_BREAKDOWN_MIN_ELIGIBLE
+  // D1-eligible users, and those past the top RANKING_MAX_BARS, share one
+  // "Other (N)" row.
+  const retentionBreakdown = useMemo<CohortRow[]>(() => {
+    if (!stats) return [];
+    const signupDayByUser = buildSignupDayByUser(stats.all_users_timeline || [], timeZone, signupRange);
+    const activeOnDayByUser = buildActiveOffsetsByUser(signupDayByUser, activityEvents, timeZone);
+    const today = todayTzKey(timeZone);
+    const analyticsByUid = new Map((stats.user_analytics ?? []).map((a) => [a.user_id, a]));
+    const pollByUid = new Map((stats.user_poll_data ?? []).map((p) => [p.user_id, p]));
+    const groups = new Map<string, string[]>();
+    for (const uid of signupDayByUser.keys()) {
+      const key = segmentValuesOf(retentionBreakdownDim, analyticsByUid.get(uid), pollByUid.get(uid))[0] ?? 'Unknown';
+      const arr = groups.get(key) ?? [];
+      arr.push(uid);
+      groups.set(key, arr);
     }
-
-    const users: Array<{ userId: string; daysSinceSignup: number }> = [];
-    let maxDaysSinceSignup = -1;
-    for (const [userId, signupDay] of signupDayByUser) {
-      const daysSinceSignup = daysBetweenDateKeys(signupDay, today);
-      users.push({ userId, daysSinceSignup });
-      if (daysSinceSignup > maxDaysSinceSignup) maxDaysSinceSignup = daysSinceSignup;
+    const curveOf = (ids: string[]) =>
+      computeRetentionCurve(ids, signupDayByUser, activeOnDayByUser, today, retentionMode);
+    const rows = Array.from(groups.entries())
+      .map(([name, ids]) => ({ key: name, label: name, size: ids.length, points: curveOf(ids), ids }))
+      .sort((a, b) => (b.points[0]?.eligible ?? 0) - (a.points[0]?.eligible ?? 0));
+    const head = rows.filter((r) => (r.points[0]?.eligible ?? 0) >= RETENTION_BREAKDOWN_MIN_ELIGIBLE).slice(0, RANKING_MAX_BARS);
+    const tail = rows.filter((r) => !head.includes(r));
+    const out: CohortRow[] = head.map(({ key, label, size, points }) => ({ key, label, size, points }));
+    if (tail.length > 0) {
+      const ids = tail.flatMap((r) => r.ids);
+      out.push({ key: 'other', label: `Other (${tail.length})`, size: ids.length, points: curveOf(ids) });
     }
+    return out;
+  }, [stats, activityEvents, signupRange, retentionMode, retentionBreakdownDim, timeZone]);
 
-    const points: RetentionPoint[] = [];
-    for (let n = 1; n <= MAX_RETENTION_DAY; n++) {
-      let eligible = 0;
-      let returned = 0;
-      for (const u of users) {
-        if (u.daysSinceSignup < n) continue;
-        eligible += 1;
-        const days = activeOnDayByUser.get(u.userId);
-        if (!days) continue;
-        if (retentionMode === 'exact') {
-          if (days.has(n)) returned += 1;
-        } else {
-          let hit = false;
-          for (const d of days) { if (d >= n) { hit = true; break; } }
-          if (hit) returned += 1;
-        }
+  // Delay between signup and first conversation for users who signed up in
+  // firstConversationRange, bucketed per FIRST_CONVERSATION_BUCKETS plus a
+  // trailing "Never" bucket.
+  const firstConversationDelay = useMemo<{ buckets: DelayBucket[]; total: number; never: number }>(() => {
+    const empty = { buckets: [] as DelayBucket[], total: 0, never: 0 };
+    if (!stats) return empty;
+    const signupDayByUser = buildSignupDayByUser(stats.all_users_timeline || [], timeZone, firstConversationRange);
+    const signupAtByUser = new Map<string, number>();
+    for (const u of stats.all_users_timeline || []) {
+      if (signupDayByUser.has(u.user_id) && !signupAtByUser.has(u.user_id)) {
+        signupAtByUser.set(u.user_id, new Date(u.created_at).getTime());
       }
-      points.push({ day: n, ratePct: eligible > 0 ? (returned / eligible) * 100 : 0, returned, eligible, hasData: eligible > 0, mature: maxDaysSinceSignup >= n });
     }
-    return points;
-  }, [stats, signupRange, retentionMode, tzOffsetMs]);
+    if (signupAtByUser.size === 0) return empty;
+    const firstAtByUser = new Map<string, number>();
+    for (const c of stats.conversation_history || []) {
+      if (!signupAtByUser.has(c.user_id)) continue;
+      const t = new Date(c.created_at).getTime();
+      const prev = firstAtByUser.get(c.user_id);
+      if (prev == null || t < prev) firstAtByUser.set(c.user_id, t);
+    }
+    const counts = new Array<number>(FIRST_CONVERSATION_BUCKETS.length).fill(0);
+    for (const [uid, firstAt] of firstAtByUser) {
+      const delay = Math.max(0, firstAt - (signupAtByUser.get(uid) ?? firstAt));
+      counts[FIRST_CONVERSATION_BUCKETS.findIndex((b) => delay < b.maxMs)] += 1;
+    }
+    const total = signupAtByUser.size;
+    const never = total - firstAtByUser.size;
+    let running = 0;
+    const buckets: DelayBucket[] = FIRST_CONVERSATION_BUCKETS.map((b, i) => {
+      running += counts[i];
+      return { label: b.label, users: counts[i], pct: (counts[i] / total) * 100, cumulativePct: (running / total) * 100 };
+    });
+    buckets.push({ label: 'Never', users: never, pct: (never / total) * 100, cumulativePct: null });
+    return { buckets, total, never };
+  }, [stats, firstConversationRange, timeZone]);
+
+  // Signup cohorts (rows) × periods since signup (columns). Only the most
+  // recent COHORT_MAX_ROWS cohorts are kept so the triangle stays readable.
+  const cohortRetention = useMemo<CohortRow[]>(() => {
+    if (!stats) return [];
+    const signupDayByUser = buildSignupDayByUser(stats.all_users_timeline || [], timeZone);
+    const activeOnDayByUser = buildActiveOffsetsByUser(signupDayByUser, activityEvents, timeZone);
+    const usersByCohort = new Map<string, string[]>();
+    for (const [userId, day] of signupDayByUser) {
+      const key = periodStartKey(day, cohortPeriod, weekStartsOn);
+      const arr = usersByCohort.get(key) ?? [];
+      arr.push(userId);
+      usersByCohort.set(key, arr);
+    }
+    const today = todayTzKey(timeZone);
+    const periodDays = cohortColumns === 'day' ? 1 : 7;
+    const maxPeriod = cohortColumns === 'day' ? MAX_RETENTION_DAY : MAX_RETENTION_WEEK;
+    return Array.from(usersByCohort.keys())
+      .sort()
+      .slice(-COHORT_MAX_ROWS)
+      .map((key) => {
+        const users = usersByCohort.get(key) ?? [];
+        return {
+          key,
+          label: formatPeriodLabel(key, cohortPeriod),
+          size: users.length,
+          points: computeRetentionCurve(users, signupDayByUser, activeOnDayByUser, today, retentionMode, maxPeriod, periodDays),
+        };
+      });
+  }, [stats, activityEvents, cohortPeriod, cohortColumns, retentionMode, weekStartsOn, timeZone]);
 
   const chartData = useMemo(() => {
     type ActiveUserPoint = { time: string; activeUsers: number; newUsers: number; returningUsers: number };
@@ -223,69 +655,130 @@ export default function DashboardEntry() {
       userTotalChart: [] as Array<{ time: string; users: number }>,
       conversationChart: [] as ConversationPoint[],
       activeUserChart: [] as ActiveUserPoint[],
+      unit: null as BucketUnit | null,
     };
     if (!stats) return empty;
 
-    const now = getTzNow(tzOffsetMs);
-    let startTime: Date;
-    let intervalMs: number;
-    const formatHourLabel = (date: Date) => `${String(date.getUTCHours()).padStart(2, '0')}:${String(date.getUTCMinutes()).padStart(2, '0')}`;
-    const formatDayLabel = (date: Date) => `${date.getUTCMonth() + 1}/${date.getUTCDate()}`;
-    let formatLabel: (date: Date) => string;
-
-    switch (timeRange) {
-      case '12h': startTime = new Date(now.getTime() - 12 * 3600000); intervalMs = 3600000; formatLabel = formatHourLabel; break;
-      case '1d':  startTime = new Date(now.getTime() - 24 * 3600000); intervalMs = 2 * 3600000; formatLabel = formatHourLabel; break;
-      case '7d':  startTime = new Date(now.getTime() - 7 * 86400000); intervalMs = 86400000; formatLabel = formatDayLabel; break;
-      case '30d': startTime = new Date(now.getTime() - 30 * 86400000); intervalMs = 86400000; formatLabel = formatDayLabel; break;
-    }
-
-    const bucketKey = (t: number) => Math.floor(t / intervalMs) * intervalMs;
-    type Bucket = { label: string; users: number; conversations: number; newUserConversations: number; returningUserConversations: number; newActiveUsers: Set<string>; returningActiveUsers: Set<string> };
-    const buckets = new Map<number, Bucket>();
-
-    let cursor = new Date(startTime);
-    while (cursor <= now) {
-      const key = bucketKey(cursor.getTime());
-      if (!buckets.has(key)) buckets.set(key, { label: formatLabel(cursor), users: 0, conversations: 0, newUserConversations: 0, returningUserConversations: 0, newActiveUsers: new Set(), returningActiveUsers: new Set() });
-      cursor = new Date(cursor.getTime() + intervalMs);
-    }
+    const { startMs, endMs } = resolveChartWindow(timeRange, chartRange, timeZone);
+    if (!(startMs <= endMs)) return empty;
+    // A granularity too fine for the window (e.g. hourly over a year) falls back to auto.
+    const requested = resolveGranularity(chartGranularity, timeRange, endMs - startMs);
+    const { unit, stepHours } = estimateBucketCount(endMs - startMs, requested.unit) > MAX_CHART_BUCKETS
+      ? resolveGranularity('auto', timeRange, endMs - startMs)
+      : requested;
+    const multiDay = endMs - startMs > 24 * 3600000;
+    const bucketKey = (t: number) => floorToBucket(t, unit, stepHours, weekStartsOn);
 
     const userSignupTime = new Map<string, number>();
-    let baseTotal = 0;
     for (const user of stats.all_users_timeline || []) {
-      const d = parseInTz(user.created_at, tzOffsetMs);
-      if (!userSignupTime.has(user.user_id)) userSignupTime.set(user.user_id, d.getTime());
-      if (d < startTime) { baseTotal += 1; continue; }
-      if (d > now) continue;
-      const b = buckets.get(bucketKey(d.getTime()));
-      if (b) b.users += 1;
+      if (!userSignupTime.has(user.user_id)) userSignupTime.set(user.user_id, parseInTz(user.created_at, timeZone).getTime());
     }
 
-    for (const conv of stats.conversation_history || []) {
-      const d = parseInTz(conv.created_at, tzOffsetMs);
-      if (d < startTime || d > now) continue;
-      const bKey = bucketKey(d.getTime());
-      const b = buckets.get(bKey);
-      if (!b) continue;
-      b.conversations += 1;
-      const signupTs = userSignupTime.get(conv.user_id);
-      const isNewInBucket = signupTs != null && signupTs >= bKey && signupTs < bKey + intervalMs;
-      if (isNewInBucket) { b.newUserConversations += 1; b.newActiveUsers.add(conv.user_id); }
-      else { b.returningUserConversations += 1; b.returningActiveUsers.add(conv.user_id); }
-    }
+    type Bucket = { label: string; end: number; users: number; totalUsers: number; conversations: number; newUserConversations: number; returningUserConversations: number; newActiveUsers: Set<string>; returningActiveUsers: Set<string> };
+    // Buckets covering [fromMs, toMs], in time order.
+    const fillBuckets = (fromMs: number, toMs: number): Bucket[] => {
+      const startTime = new Date(fromMs);
+      const now = new Date(toMs);
+      const buckets = new Map<number, Bucket>();
+      for (let key = bucketKey(fromMs); key <= toMs; key = nextBucket(key, unit, stepHours)) {
+        buckets.set(key, { label: formatBucketLabel(key, unit, multiDay), end: nextBucket(key, unit, stepHours), users: 0, totalUsers: 0, conversations: 0, newUserConversations: 0, returningUserConversations: 0, newActiveUsers: new Set(), returningActiveUsers: new Set() });
+      }
+
+      let baseTotal = 0;
+      for (const user of stats.all_users_timeline || []) {
+        const d = parseInTz(user.created_at, timeZone);
+        if (d < startTime) { baseTotal += 1; continue; }
+        if (d > now) continue;
+        const b = buckets.get(bucketKey(d.getTime()));
+        if (b) b.users += 1;
+      }
+
+      const isNewInBucket = (uid: string, bKey: number) => {
+        const signupTs = userSignupTime.get(uid);
+        const b = buckets.get(bKey);
+        return signupTs != null && b != null && signupTs >= bKey && signupTs < b.end;
+      };
+
+      for (const conv of stats.conversation_history || []) {
+        const d = parseInTz(conv.created_at, timeZone);
+        if (d < startTime || d > now) continue;
+        const bKey = bucketKey(d.getTime());
+        const b = buckets.get(bKey);
+        if (!b) continue;
+        b.conversations += 1;
+        if (isNewInBucket(conv.user_id, bKey)) b.newUserConversations += 1;
+        else b.returningUserConversations += 1;
+      }
+
+      for (const e of activityEvents) {
+        const d = parseInTz(e.created_at, timeZone);
+        if (d < startTime || d > now) continue;
+        const bKey = bucketKey(d.getTime());
+        const b = buckets.get(bKey);
+        if (!b) continue;
+        if (isNewInBucket(e.user_id, bKey)) b.newActiveUsers.add(e.user_id);
+        else b.returningActiveUsers.add(e.user_id);
+      }
+
+      const sorted = Array.from(buckets.entries()).sort(([x], [y]) => x - y).map(([, bucket]) => bucket);
+      let runningTotal = baseTotal;
+      for (const bucket of sorted) { runningTotal += bucket.users; bucket.totalUsers = runningTotal; }
+      return sorted;
+    };
 
-    const sorted = Array.from(buckets.entries()).sort(([a], [b]) => a - b);
-    let runningTotal = baseTotal;
-    const userTotalChart: Array<{ time: string; users: number }> = [];
-    for (const [, b] of sorted) { runningTotal += b.users; userTotalChart.push({ time: b.label, users: runningTotal }); }
+    const sorted = fillBuckets(startMs, endMs);
+    // Comparison buckets line up with the current ones by index.
+    const offset = compareOffsetMs(compareMode, startMs, endMs, compareStart);
+    const compare = offset != null ? fillBuckets(startMs - offset, endMs - offset) : [];
+    const activeCount = (b: Bucket) => b.newActiveUsers.size + b.returningActiveUsers.size;
     return {
-      userChart: sorted.map(([, b]) => ({ time: b.label, users: b.users })),
-      userTotalChart,
-      conversationChart: sorted.map(([, b]) => ({ time: b.label, conversations: b.conversations, newUserConversations: b.newUserConversations, returningUserConversations: b.returningUserConversations })),
-      activeUserChart: sorted.map(([, b]) => ({ time: b.label, activeUsers: b.newActiveUsers.size + b.returningActiveUsers.size, newUsers: b.newActiveUsers.size, returningUsers: b.returningActiveUsers.size })),
+      unit,
+      userChart: sorted.map((b, i) => ({ time: b.label, users: b.users, ...(compare[i] && { compareUsers: compare[i].users }) })),
+      userTotalChart: sorted.map((b, i) => ({ time: b.label, users: b.totalUsers, ...(compare[i] && { compareUsers: compare[i].totalUsers }) })),
+      conversationChart: sorted.map((b, i) => ({ time: b.label, conversations: b.conversations, newUserConversations: b.newUserConversations, returningUserConversations: b.returningUserConversations, ...(compare[i] && { compareConversations: compare[i].conversations }) })),
+      activeUserChart: sorted.map((b, i) => ({ time: b.label, activeUsers: activeCount(b), newUsers: b.newActiveUsers.size, returningUsers: b.returningActiveUsers.size, ...(compare[i] && { compareActiveUsers: activeCount(compare[i]) }) })),
     };
-  }, [stats, timeRange, tzOffsetMs]);
+  }, [stats, activityEvents, timeRange, chartRange, chartGranularity, weekStartsOn, compareMode, compareStart, timeZone]);
+
+  // Active users per period split into new / retained / resurrected, plus the
+  // users lost since the previous period (churned, negative).
+  const lifecycleChart = useMemo<LifecyclePoint[]>(() => {
+    if (!stats) return [];
+    const signupPeriodByUser = new Map<string, string>();
+    for (const u of stats.all_users_timeline || []) {
+      if (!signupPeriodByUser.has(u.user_id)) {
+        signupPeriodByUser.set(u.user_id, periodStartKey(toTzDateKey(u.created_at, timeZone), lifecyclePeriod, weekStartsOn));
+      }
+    }
+    const activeByPeriod = new Map<string, Set<string>>();
+    for (const e of activityEvents) {
+      const key = periodStartKey(toTzDateKey(e.created_at, timeZone), lifecyclePeriod, weekStartsOn);
+      let set = activeByPeriod.get(key);
+      if (!set) { set = new Set(); activeByPeriod.set(key, set); }
+      set.add(e.user_id);
+    }
+
+    const current = periodStartKey(todayTzKey(timeZone), lifecyclePeriod, weekStartsOn);
+    const count = LIFECYCLE_PERIOD_COUNT[lifecyclePeriod];
+    const points: LifecyclePoint[] = [];
+    for (let i = count - 1; i >= 0; i--) {
+      const key = addPeriods(current, lifecyclePeriod, -i);
+      const active = activeByPeriod.get(key) ?? new Set<string>();
+      const prevActive = activeByPeriod.get(addPeriods(key, lifecyclePeriod, -1)) ?? new Set<string>();
+      let newUsers = 0;
+      let retained = 0;
+      let resurrected = 0;
+      for (const uid of active) {
+        if (signupPeriodByUser.get(uid) === key) newUsers += 1;
+        else if (prevActive.has(uid)) retained += 1;
+        else resurrected += 1;
+      }
+      let churned = 0;
+      for (const uid of prevActive) if (!active.has(uid)) churned += 1;
+      points.push({ time: formatPeriodLabel(key, lifecyclePeriod), newUsers, retained, resurrected, churned: -churned, activeUsers: active.size });
+    }
+    return points;
+  }, [stats, activityEvents, lifecyclePeriod, weekStartsOn, timeZone]);
 
   const analyticsData = useMemo(() => {
     const rows: UserAnalytics[] = stats?.user_analytics ?? [];
@@ -357,15 +850,15 @@ export default function DashboardEntry() {
     let min: string | null = null;
     let max: string | null = null;
     for (const c of stats.conversation_history) {
-      const d = toTzDateKey(c.created_at, tzOffsetMs);
+      const d = toTzDateKey(c.created_at, timeZone);
       if (min === null || d < min) min = d;
       if (max === null || d > max) max = d;
     }
     return min && max ? { min, max } : null;
-  }, [stats, tzOffsetMs]);
+  }, [stats, timeZone]);
 
   const topUsers = useMemo(() => {
-    const empty = { data: [] as CountEntry[], rows: [] as ReturnType<typeof buildTopUserRows>, totalConversations: 0, activeUsers: 0 };
+    const empty = { data: [] as CountEntry[], rows: [] as ReturnType<typeof buildTopUserRows>, totalEvents: 0, activeUsers: 0 };
     if (!stats) return empty;
     const { start, end } = topUsersRange;
 
@@ -386,25 +879,40 @@ export default function DashboardEntry() {
     for (const p of stats.user_poll_data ?? []) pollByUid.set(p.user_id, p);
 
     const counts = new Map<string, number>();
-    let totalConversations = 0;
-    for (const c of stats.conversation_history || []) {
-      const day = toTzDateKey(c.created_at, tzOffsetMs);
+    let totalEvents = 0;
+    for (const e of activityEvents) {
+      const day = toTzDateKey(e.created_at, timeZone);
       if (start && day < start) continue;
       if (end && day > end) continue;
-      counts.set(c.user_id, (counts.get(c.user_id) ?? 0) + 1);
-      totalConversations += 1;
+      counts.set(e.user_id, (counts.get(e.user_id) ?? 0) + 1);
+      totalEvents += 1;
     }
 
     const sortedEntries = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
     const ranked: CountEntry[] = sortedEntries.map(([uid, value]) => ({ name: friendly(uid), value }));
-    const rows = sortedEntries.slice(0, topK).map(([uid, conversations]) => {
+    const rows = sortedEntries.slice(0, topK).map(([uid, events]) => {
       const a = analyticsByUid.get(uid);
       const p = pollByUid.get(uid);
-      return { user_id: uid, label: friendly(uid), conversations, identity: a?.identity ?? null, country: a?.country ?? null, nationality: a?.nationality ?? null, initialUsedFunction: a?.initial_used_function ?? null, mostUsedFunctions: a?.most_used_function ?? null, loginIp: p?.login_ip ?? null, acquisitionSources: p?.user_acquisition_sources ?? null };
+      return { user_id: uid, label: friendly(uid), events, identity: a?.identity ?? null, country: a?.country ?? null, nationality: a?.nationality ?? null, initialUsedFunction: a?.initial_used_function ?? null, mostUsedFunctions: a?.most_used_function ?? null, loginIp: p?.login_ip ?? null, acquisitionSources: p?.user_acquisition_sources ?? null };
     });
 
-    return { data: withOtherBucket(ranked, topK), rows, totalConversations, activeUsers: counts.size };
-  }, [stats, topUsersRange, tzOffsetMs, topK]);
+    return { data: withOtherBucket(ranked, topK), rows, totalEvents, activeUsers: counts.size };
+  }, [stats, activityEvents, topUsersRange, timeZone, topK]);
+
+  const activeDaysByUser = useMemo(
+    () => buildActiveDaysByUser(activityEvents, timeZone),
+    [activityEvents, timeZone],
+  );
+
+  // Power user curve: users by number of distinct active days inside an
+  // L7 / L30 window, optionally next to a second window for comparison.
+  const powerUserCurve = useMemo<PowerUserPoint[]>(() => {
+    const current = activeDayHistogram(activeDaysByUser, powerUserEnd, powerUserWindow);
+    const compare = powerUserCompareEnd
+      ? activeDayHistogram(activeDaysByUser, powerUserCompareEnd, powerUserWindow)
+      : null;
+    return current.map((users, i) => ({ days: i + 1, users, compareUsers: compare?.[i] ?? 0 }));
+  }, [activeDaysByUser, powerUserEnd, powerUserCompareEnd, powerUserWindow]);
 
   if (loading) return <div className="dashboard-container"><div className="loading">Loading...</div></div>;
 
@@ -436,7 +944,7 @@ export default function DashboardEntry() {
   // Tabs available per role
   const visibleTabs: [DashboardTab, string][] = [
     ['general', 'General'],
-    ...(role === 'admin' ? [['retention', 'Retention']] as [DashboardTab, string][] : []),
+    ...(role === 'admin' ? [['retention', 'Retention'], ['funnel', 'Funnel'], ['compare', 'Compare']] as [DashboardTab, string][] : []),
     ['analytics', 'User Analytics'],
     ['pollData', 'User Poll Data'],
     ['topUsers', 'Top Users'],
@@ -449,14 +957,23 @@ export default function DashboardEntry() {
         <div className="dashboard-header-row">
           <h1>Hyperknow User Dashboard</h1>
           <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
-            <label className="timezone-selector">
-              <span>Timezone</span>
-              <select value={tzKey} onChange={(e) => setTzKey(e.target.value)}>
-                {TIMEZONE_OPTIONS.map((o) => (
-                  <option key={o.key} value={o.key}>{o.label}</option>
-                ))}
-              </select>
-            </label>
+            <ActivityTypeSelector
+              value={activeEventTypes}
+              onChange={setActiveEventTypes}
+              hasEventsFeed={!!stats.events}
+            />
+            <CompareModeSelector
+              mode={compareMode}
+              onModeChange={setCompareMode}
+              customStart={compareStart}
+              onCustomStartChange={setCompareStart}
+            />
+            <TimezonePicker value={timeZone} onChange={setTimeZone} />
+            <SavedViewsMenu
+              role={role}
+              currentUrl={viewStateToUrl(viewState)}
+              onApply={(url) => applyViewState(viewStateFromUrlString(url, role))}
+            />
             <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
               <span style={{ fontSize: 11, color: '#999', background: '#f5f5f5', padding: '2px 8px', borderRadius: 10 }}>
                 {role}
@@ -471,6 +988,18 @@ export default function DashboardEntry() {
             </div>
           </div>
         </div>
+        {segmentOptionsByDim && (
+          <SegmentFilterBar
+            value={segment}
+            onChange={setSegment}
+            options={segmentOptionsByDim}
+            signupBounds={signupBounds}
+            showPaidStatus={role === 'admin' && !!fetchedPaidStats}
+            matchedUsers={segmentUserIds ? segmentUserIds.size : null}
+            totalUsers={fetchedStats?.all_users_timeline?.length ?? 0}
+          />
+        )}
+        <SegmentFilterChips value={segment} onChange={setSegment} />
         <div className="tab-bar">
           {visibleTabs.map(([tab, label]) => (
             <button
@@ -489,9 +1018,33 @@ export default function DashboardEntry() {
         <GeneralTab
           stats={stats}
           chartData={chartData}
+          lifecycleChart={lifecycleChart}
+          lifecyclePeriod={lifecyclePeriod}
+          setLifecyclePeriod={setLifecyclePeriod}
+          dailyActivity={dailyActivity}
+          weeklyPattern={weeklyPattern}
+          weeklyPatternRange={weeklyPatternRange}
+          setWeeklyPatternRange={setWeeklyPatternRange}
+          weeklyPatternMetric={weeklyPatternMetric}
+          setWeeklyPatternMetric={setWeeklyPatternMetric}
+          weeklyPatternNormalize={weeklyPatternNormalize}
+          setWeeklyPatternNormalize={setWeeklyPatternNormalize}
+          calendarMetric={calendarMetric}
+          setCalendarMetric={setCalendarMetric}
+          calendarYear={calendarYear}
+          setCalendarYear={setCalendarYear}
+          conversationBounds={conversationBounds}
           timeRange={timeRange}
           setTimeRange={setTimeRange}
-          tzOffsetMs={tzOffsetMs}
+          chartRange={chartRange}
+          setChartRange={setChartRange}
+          chartGranularity={chartGranularity}
+          setChartGranularity={setChartGranularity}
+          weekStartsOn={weekStartsOn}
+          setWeekStartsOn={setWeekStartsOn}
+          compareMode={compareMode}
+          compareStats={compareStats}
+          timeZone={timeZone}
           conversationCount={conversationCount}
           pollRows={stats.user_poll_data ?? []}
           role={role}
@@ -501,6 +1054,7 @@ export default function DashboardEntry() {
       {activeTab === 'retention' && role === 'admin' && (
         <RetentionTab
           dauStats={dauStats}
+          compareStats={compareStats}
           dauDate={dauDate}
           setDauDate={setDauDate}
           mauStats={mauStats}
@@ -512,39 +1066,118 @@ export default function DashboardEntry() {
           mauEndDate={mauEndDate}
           setMauEndDate={setMauEndDate}
           dauMauRatio={dauMauRatio}
+          stickinessSeries={stickinessSeries}
+          stickinessRange={stickinessRange}
+          setStickinessRange={setStickinessRange}
+          conversationBounds={conversationBounds}
           cumulativeRetention={cumulativeRetention}
           signupRange={signupRange}
           setSignupRange={setSignupRange}
           signupBounds={signupBounds}
           retentionMode={retentionMode}
           setRetentionMode={setRetentionMode}
+          retentionOverlays={retentionOverlays}
+          setRetentionOverlays={setRetentionOverlays}
+          retentionOverlayCurves={retentionOverlayCurves}
+          retentionBreakdown={retentionBreakdown}
+          retentionBreakdownDim={retentionBreakdownDim}
+          setRetentionBreakdownDim={setRetentionBreakdownDim}
+          minSampleSize={minSampleSize}
+          setMinSampleSize={setMinSampleSize}
+          weekStartsOn={weekStartsOn}
+          timeZone={timeZone}
+          firstConversationDelay={firstConversationDelay}
+          firstConversationRange={firstConversationRange}
+          setFirstConversationRange={setFirstConversationRange}
+          cohortRetention={cohortRetention}
+          cohortPeriod={cohortPeriod}
+          setCohortPeriod={setCohortPeriod}
+          cohortColumns={cohortColumns}
+          setCohortColumns={setCohortColumns}
+        />
+      )}
+
+      {activeTab === 'funnel' && role === 'admin' && (
+        <FunnelTab
+          stats={stats}
+          paidStats={paidStats}
+          activityEvents={activityEvents}
+          timeZone={timeZone}
+          signupRange={funnelSignupRange}
+          setSignupRange={setFunnelSignupRange}
+          steps={funnelSteps}
+          setSteps={setFunnelSteps}
+          breakdown={funnelBreakdown}
+          setBreakdown={setFunnelBreakdown}
+        />
+      )}
+
+      {activeTab === 'compare' && role === 'admin' && (
+        <CompareTab
+          stats={stats}
+          paidStats={paidStats}
+          activityEvents={activityEvents}
+          timeZone={timeZone}
+          weekStartsOn={weekStartsOn}
+          savedSegments={compareSegments}
+          setSegments={setCompareSegments}
+          trendPeriod={compareTrendPeriod}
+          setTrendPeriod={setCompareTrendPeriod}
+          retentionMode={compareRetentionMode}
+          setRetentionMode={setCompareRetentionMode}
         />
       )}
 
       {activeTab === 'analytics' && (
-        <AnalyticsTab analyticsData={analyticsData} role={role} />
+        <AnalyticsTab analyticsData={analyticsData} role={role} onFilter={addSegmentValue} />
       )}
 
       {activeTab === 'pollData' && (
-        <PollDataTab pollData={pollData} />
+        <PollDataTab pollData={pollData} onFilter={addSegmentValue} />
       )}
 
       {activeTab === 'topUsers' && (
-        <TopUsersTab
-          topUsers={topUsers}
-          topK={topK}
-          setTopK={setTopK}
-          topUsersRange={topUsersRange}
-          setTopUsersRange={setTopUsersRange}
-          conversationBounds={conversationBounds}
-          tzOffsetMs={tzOffsetMs}
-          role={role}
-        />
+        <>
+          <TopUsersTab
+            topUsers={topUsers}
+            topK={topK}
+            setTopK={setTopK}
+            topUsersRange={topUsersRange}
+            setTopUsersRange={setTopUsersRange}
+            conversationBounds={conversationBounds}
+            timeZone={timeZone}
+            role={role}
+            activityLabel={activityLabel}
+            dailyActivityByUser={activityByUser}
+          />
+          <PowerUserSection
+            powerUserCurve={powerUserCurve}
+            powerUserWindow={powerUserWindow}
+            setPowerUserWindow={setPowerUserWindow}
+            powerUserEnd={powerUserEnd}
+            setPowerUserEnd={setPowerUserEnd}
+            powerUserCompareEnd={powerUserCompareEnd}
+            setPowerUserCompareEnd={setPowerUserCompareEnd}
+            conversationBounds={conversationBounds}
+            role={role}
+          />
+        </>
       )}
 
       {activeTab === 'paid' && (
         paidStats ? (
-          <PaidTab stats={stats} paidStats={paidStats} tzOffsetMs={tzOffsetMs} />
+          <PaidTab
+            stats={stats}
+            paidStats={paidStats}
+            activityEvents={activityEvents}
+            dailyActivityByUser={activityByUser}
+            activityLabel={activityLabel}
+            timeZone={timeZone}
+            view={paidView}
+            onViewChange={(patch) => setPaidView((prev) => ({ ...prev, ...patch }))}
+            minSampleSize={minSampleSize}
+            onMinSampleSizeChange={setMinSampleSize}
+          />
         ) : (
           <div className="section">
             <div className="empty-state" style={{ height: 160 }}>
@@ -558,4 +1191,4 @@ export default function DashboardEntry() {
 }
 
 // Helper to infer the row type for topUsers (avoids repetition).
-function buildTopUserRows() { return [] as Array<{ user_id: string; label: string; conversations: number; identity: string | null; country: string | null; nationality: string | null; initialUsedFunction: string | null; mostUsedFunctions: Array<{ count: number; function: string }> | null; loginIp: unknown; acquisitionSources: unknown }>; }
+function buildTopUserRows() { return [] as Array<{ user_id: string; label: string; events: number; identity: string | null; country: string | null; nationality: string | null; initialUsedFunction: string | null; mostUsedFunctions: Array<{ count: number; function: string }> | null; loginIp: unknown; acquisitionSources: unknown }>; }
@@ -0,0 +1,323 @@
+import { useMemo } from 'react';
+import { StatsResponse } from '../../api/getUserInfo/stats';
+import { PaidStatsResponse, bucketOfBillingReason } from '../../api/getUserInfo/paid';
+import {
+  MeaningfulEvent,
+  CATEGORICAL_COLORS,
+  RANKING_MAX_BARS,
+  HOUR_MS,
+  toTzDateKey,
+  daysBetweenDateKeys,
+  extractStringLeaves,
+  buildSignupDayByUser,
+} from './dashboardUtils';
+import { SignupRangeFilter } from './dashboardCharts';
+import {
+  FunnelStepKind,
+  FunnelStep,
+  FunnelBreakdown,
+  FUNNEL_STEP_KINDS,
+  FUNNEL_BREAKDOWN_LABELS,
+} from './funnelSteps';
+
+// Per-user facts every step kind is evaluated against.
+type FunnelUser = {
+  signupAt: number;
+  signupDay: string;
+  firstConversationAt: number | null;
+  activeOffsets: Set<number>; // day offsets since signup with any activity
+  firstPaidAt: number | null;
+};
+
+function passesStep(u: FunnelUser, step: FunnelStep): boolean {
+  switch (step.kind) {
+    case 'first_conversation':
+      return u.firstConversationAt != null && u.firstConversationAt - u.signupAt <= step.param * HOUR_MS;
+    case 'day_n_return':
+      return u.activeOffsets.has(step.param);
+    case 'active_days_first_week': {
+      let n = 0;
+      for (const d of u.activeOffsets) if (d >= 0 && d < 7) n += 1;
+      return n >= step.param;
+    }
+    case 'first_paid':
+      return u.firstPaidAt != null && u.firstPaidAt - u.signupAt <= step.param * 24 * HOUR_MS;
+  }
+}
+
+// Users are counted at step k only if they also passed every earlier step.
+function funnelCounts(users: FunnelUser[], steps: FunnelStep[]): number[] {
+  const counts = new Array<number>(steps.length + 1).fill(0);
+  for (const u of users) {
+    counts[0] += 1;
+    for (let i = 0; i < steps.length; i++) {
+      if (!passesStep(u, steps[i])) break;
+      counts[i + 1] += 1;
+    }
+  }
+  return counts;
+}
+
+const formatPct = (num: number, den: number): string =>
+  den > 0 ? `${((num / den) * 100).toFixed(1)}%` : '—';
+
+// ---------------------------------------------------------------------------
+// Subcomponents
+// ---------------------------------------------------------------------------
+
+function FunnelBars({ labels, counts }: { labels: string[]; counts: number[] }) {
+  const top = counts[0] ?? 0;
+  if (top === 0) return <div className="empty-state">No signups in this range</div>;
+  return (
+    <div className="funnel-bars">
+      {labels.map((label, i) => {
+        const count = counts[i];
+        return (
+          <div className="funnel-row" key={label + i}>
+            <div className="funnel-row-label" title={label}>{label}</div>
+            <div className="funnel-row-track">
+              <div className="funnel-row-bar" style={{ width: `${(count / top) * 100}%`, background: CATEGORICAL_COLORS[0] }} />
+            </div>
+            <div className="funnel-row-value">
+              <strong>{count.toLocaleString()}</strong>
+              <span>{formatPct(count, top)} of signups</span>
+              {i > 0 && <span>{formatPct(count, counts[i - 1])} from previous</span>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export default function FunnelTab({
+  stats,
+  paidStats,
+  activityEvents,
+  timeZone,
+  signupRange,
+  setSignupRange,
+  steps,
+  setSteps,
+  breakdown,
+  setBreakdown,
+}: {
+  stats: StatsResponse;
+  paidStats: PaidStatsResponse | null;
+  activityEvents: MeaningfulEvent[];
+  timeZone: string;
+  signupRange: { start: string; end: string };
+  setSignupRange: (r: { start: string; end: string }) => void;
+  steps: FunnelStep[];
+  setSteps: (s: FunnelStep[]) => void;
+  breakdown: FunnelBreakdown;
+  setBreakdown: (b: FunnelBreakdown) => void;
+}) {
+
+  const signupBounds = useMemo<{ min: string; max: string } | null>(() => {
+    let min: string | null = null;
+    let max: string | null = null;
+    for (const u of stats.all_users_timeline || []) {
+      const d = toTzDateKey(u.created_at, timeZone);
+      if (min === null || d < min) min = d;
+      if (max === null || d > max) max = d;
+    }
+    return min && max ? { min, max } : null;
+  }, [stats, timeZone]);
+
+  const users = useMemo<Map<string, FunnelUser>>(() => {
+    const signupDayByUser = buildSignupDayByUser(stats.all_users_timeline || [], timeZone, signupRange);
+    const out = new Map<string, FunnelUser>();
+    for (const u of stats.all_users_timeline || []) {
+      const signupDay = signupDayByUser.get(u.user_id);
+      if (!signupDay || out.has(u.user_id)) continue;
+      out.set(u.user_id, {
+        signupAt: new Date(u.created_at).getTime(),
+        signupDay,
+        firstConversationAt: null,
+        activeOffsets: new Set(),
+        firstPaidAt: null,
+      });
+    }
+    for (const c of stats.conversation_history || []) {
+      const u = out.get(c.user_id);
+      if (!u) continue;
+      const t = new Date(c.created_at).getTime();
+      if (u.firstConversationAt == null || t < u.firstConversationAt) u.firstConversationAt = t;
+    }
+    for (const e of activityEvents) {
+      const u = out.get(e.user_id);
+      if (!u) continue;
+      u.activeOffsets.add(daysBetweenDateKeys(u.signupDay, toTzDateKey(e.created_at, timeZone)));
+    }
+    for (const s of paidStats?.subscriptions ?? []) {
+      if (bucketOfBillingReason(s.billing_reason) !== 'paid') continue;
+      const u = out.get(s.user_id);
+      const t = s.started_at ? new Date(s.started_at).getTime() : NaN;
+      if (!u || !Number.isFinite(t)) continue;
+      if (u.firstPaidAt == null || t < u.firstPaidAt) u.firstPaidAt = t;
+    }
+    return out;
+  }, [stats, paidStats, activityEvents, signupRange, timeZone]);
+
+  const stepLabels = useMemo(
+    () => ['Signed up', ...steps.map((s) => FUNNEL_STEP_KINDS[s.kind].label(s.param))],
+    [steps],
+  );
+
+  const overall = useMemo(() => funnelCounts(Array.from(users.values()), steps), [users, steps]);
+
+  const breakdownRows = useMemo(() => {
+    if (breakdown === 'none') return [];
+    const analyticsByUser = new Map((stats.user_analytics ?? []).map((a) => [a.user_id, a]));
+    const pollByUser = new Map((stats.user_poll_data ?? []).map((p) => [p.user_id, p]));
+    const categoryOf = (uid: string): string => {
+      if (breakdown === 'identity') return analyticsByUser.get(uid)?.identity?.trim() || 'Unknown';
+      if (breakdown === 'country') return analyticsByUser.get(uid)?.country?.trim() || 'Unknown';
+      return extractStringLeaves(pollByUser.get(uid)?.user_acquisition_sources)[0] ?? 'Unknown';
+    };
+    const groups = new Map<string, FunnelUser[]>();
+    for (const [uid, u] of users) {
+      const key = categoryOf(uid);
+      const arr = groups.get(key) ?? [];
+      arr.push(u);
+      groups.set(key, arr);
+    }
+    const sorted = Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+    const head = sorted.slice(0, RANKING_MAX_BARS);
+    const tail = sorted.slice(RANKING_MAX_BARS);
+    if (tail.length > 0) head.push([`Other (${tail.length})`, tail.flatMap(([, arr]) => arr)]);
+    return head.map(([name, arr]) => ({ name, counts: funnelCounts(arr, steps) }));
+  }, [breakdown, users, steps, stats]);
+
+  const updateStep = (id: number, patch: Partial<FunnelStep>) =>
+    setSteps(steps.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  const removeStep = (id: number) => setSteps(steps.filter((s) => s.id !== id));
+  const addStep = () =>
+    setSteps([...steps, { id: Math.max(0, ...steps.map((s) => s.id)) + 1, kind: 'day_n_return', param: 7 }]);
+
+  return (
+    <>
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Activation Funnel 激活漏斗</h2>
+            <p className="section-subtitle">
+              Users who signed up in the selected range, counted at each step only if they also passed
+              every earlier step. Recent signups may not have had time to reach later steps yet.
+            </p>
+            {!paidStats && (
+              <p className="section-subtitle" style={{ fontStyle: 'italic', color: '#aaa', marginTop: 2 }}>
+                Paid stats failed to load — paid steps count no users.
+              </p>
+            )}
+          </div>
+          <SignupRangeFilter
+            start={signupRange.start}
+            end={signupRange.end}
+            minDate={signupBounds?.min}
+            maxDate={signupBounds?.max}
+            onChange={setSignupRange}
+            onReset={() => setSignupRange({ start: '', end: '' })}
+          />
+        </div>
+
+        <div className="funnel-steps">
+          {steps.map((step, i) => {
+            const meta = FUNNEL_STEP_KINDS[step.kind];
+            return (
+              <div className="funnel-step-editor" key={step.id}>
+                <span className="funnel-step-index">{i + 1}</span>
+                <select
+                  value={step.kind}
+                  onChange={(e) => {
+                    const kind = e.target.value as FunnelStepKind;
+                    const next = FUNNEL_STEP_KINDS[kind];
+                    updateStep(step.id, { kind, param: Math.min(next.max, Math.max(next.min, step.param)) });
+                  }}
+                >
+                  {(Object.keys(FUNNEL_STEP_KINDS) as FunnelStepKind[]).map((k) => (
+                    <option key={k} value={k}>{FUNNEL_STEP_KINDS[k].name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={meta.min}
+                  max={meta.max}
+                  value={step.param}
+                  onChange={(e) => {
+                    const v = parseInt(e.target.value, 10);
+                    if (Number.isFinite(v) && v >= meta.min && v <= meta.max) updateStep(step.id, { param: v });
+                  }}
+                />
+                <span className="funnel-step-unit">{meta.paramLabel}</span>
+                <button type="button" className="signup-range-reset" onClick={() => removeStep(step.id)}>Remove</button>
+              </div>
+            );
+          })}
+          <button type="button" className="signup-range-reset" onClick={addStep}>+ Add step</button>
+        </div>
+
+        <div className="chart-container">
+          <FunnelBars labels={stepLabels} counts={overall} />
+        </div>
+      </div>
+
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Funnel Breakdown</h2>
+            <p className="section-subtitle">
+              Step counts per category, with conversion from the previous step in parentheses.
+            </p>
+          </div>
+          <div className="stat-segmented">
+            {(Object.keys(FUNNEL_BREAKDOWN_LABELS) as FunnelBreakdown[]).map((k) => (
+              <button
+                key={k}
+                type="button"
+                className={`stat-segmented-btn${breakdown === k ? ' active' : ''}`}
+                onClick={() => setBreakdown(k)}
+              >
+                {FUNNEL_BREAKDOWN_LABELS[k]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {breakdown !== 'none' && (
+          <div className="table-container">
+            <table className="funnel-breakdown-table">
+              <thead>
+                <tr>
+                  <th>{FUNNEL_BREAKDOWN_LABELS[breakdown]}</th>
+                  {stepLabels.map((label, i) => <th key={label + i}>{label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {breakdownRows.map((row) => (
+                  <tr key={row.name}>
+                    <td>{row.name}</td>
+                    {row.counts.map((count, i) => (
+                      <td key={i}>
+                        {count.toLocaleString()}
+                        {i > 0 && (
+                          <span style={{ color: '#999', fontSize: 11, marginLeft: 4 }}>
+                            ({formatPct(count, row.counts[i - 1])})
+                          </span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,9 +1,34 @@
 import { useState } from 'react';
 import { StatsResponse, UserPollData } from '../../api/getUserInfo/stats';
-import { TimeRange, formatDateTime, extractStringLeaves } from './dashboardUtils';
-import { StatLineChart, StackedBarChart, TimeRangeSelector } from './dashboardCharts';
+import {
+  TimeRange,
+  ChartGranularity,
+  BucketUnit,
+  CompareMode,
+  CompareStats,
+  COMPARE_MODE_LABELS,
+  PeriodUnit,
+  LifecyclePoint,
+  HourWeekdayGrid,
+  DailyActivity,
+  formatDateTime,
+  extractStringLeaves,
+  todayTzKey,
+  addDays,
+} from './dashboardUtils';
+import {
+  StatLineChart,
+  StackedBarChart,
+  LifecycleBarChart,
+  HourWeekdayHeatmap,
+  CalendarHeatmap,
+  SignupRangeFilter,
+  ChartRangeControls,
+  DeltaBadge,
+} from './dashboardCharts';
 
 type ChartData = {
+  unit: BucketUnit | null;
   userChart: Array<{ time: string; users: number }>;
   userTotalChart: Array<{ time: string; users: number }>;
   conversationChart: Array<{
@@ -23,18 +48,67 @@ type ChartData = {
 export default function GeneralTab({
   stats,
   chartData,
+  lifecycleChart,
+  lifecyclePeriod,
+  setLifecyclePeriod,
+  dailyActivity,
+  weeklyPattern,
+  weeklyPatternRange,
+  setWeeklyPatternRange,
+  weeklyPatternMetric,
+  setWeeklyPatternMetric,
+  weeklyPatternNormalize,
+  setWeeklyPatternNormalize,
+  calendarMetric,
+  setCalendarMetric,
+  calendarYear,
+  setCalendarYear,
+  conversationBounds,
   timeRange,
   setTimeRange,
-  tzOffsetMs,
+  chartRange,
+  setChartRange,
+  chartGranularity,
+  setChartGranularity,
+  weekStartsOn,
+  setWeekStartsOn,
+  compareMode,
+  compareStats,
+  timeZone,
   conversationCount,
   pollRows,
   role = 'admin',
 }: {
   stats: StatsResponse;
   chartData: ChartData;
+  lifecycleChart: LifecyclePoint[];
+  lifecyclePeriod: PeriodUnit;
+  setLifecyclePeriod: (p: PeriodUnit) => void;
+  dailyActivity: DailyActivity | null;
+  weeklyPattern: HourWeekdayGrid | null;
+  weeklyPatternRange: { start: string; end: string };
+  setWeeklyPatternRange: (r: { start: string; end: string }) => void;
+  weeklyPatternMetric: 'conversations' | 'users';
+  setWeeklyPatternMetric: (m: 'conversations' | 'users') => void;
+  weeklyPatternNormalize: boolean;
+  setWeeklyPatternNormalize: (v: boolean) => void;
+  calendarMetric: 'conversations' | 'users';
+  setCalendarMetric: (m: 'conversations' | 'users') => void;
+  // '' = trailing 12 months, otherwise a calendar year such as '2025'
+  calendarYear: string;
+  setCalendarYear: (y: string) => void;
+  conversationBounds: { min: string; max: string } | null;
   timeRange: TimeRange;
   setTimeRange: (r: TimeRange) => void;
-  tzOffsetMs: number;
+  chartRange: { start: string; end: string };
+  setChartRange: (r: { start: string; end: string }) => void;
+  chartGranularity: ChartGranularity;
+  setChartGranularity: (g: ChartGranularity) => void;
+  weekStartsOn: number;
+  setWeekStartsOn: (d: number) => void;
+  compareMode: CompareMode;
+  compareStats: CompareStats;
+  timeZone: string;
   conversationCount: number;
   pollRows: UserPollData[];
   role?: string;
@@ -43,8 +117,23 @@ export default function GeneralTab({
   const [activeUsersMode, setActiveUsersMode] = useState<'line' | 'bar'>('line');
   const [conversationsMode, setConversationsMode] = useState<'line' | 'bar'>('line');
 
+  const calendarYears: string[] = [];
+  if (conversationBounds) {
+    for (let y = Number(conversationBounds.max.slice(0, 4)); y >= Number(conversationBounds.min.slice(0, 4)); y--) {
+      calendarYears.push(String(y));
+    }
+  }
+  const calendarEnd = calendarYear ? `${calendarYear}-12-31` : todayTzKey(timeZone);
+  const calendarStart = calendarYear ? `${calendarYear}-01-01` : addDays(calendarEnd, -364);
+
+  const compareLabel = COMPARE_MODE_LABELS[compareMode];
+  const withCompare = (key: string) => (compareMode === 'off' ? undefined : key);
+
   const activeUserChartTitle =
-    timeRange === '7d' || timeRange === '30d' ? 'Daily Active Users' : 'Active Users';
+    chartData.unit === 'day' ? 'Daily Active Users'
+    : chartData.unit === 'week' ? 'Weekly Active Users'
+    : chartData.unit === 'month' ? 'Monthly Active Users'
+    : 'Active Users';
 
   return (
     <>
@@ -53,16 +142,32 @@ export default function GeneralTab({
           <div className="stat-card">
             <div className="stat-label">Total Users</div>
             <div className="stat-value">{stats.total_users}</div>
+            {compareStats.totalUsers && <DeltaBadge delta={compareStats.totalUsers} />}
           </div>
         )}
         {role === 'admin' && (
           <div className="stat-card">
             <div className="stat-label">Conversations</div>
             <div className="stat-value">{conversationCount}</div>
+            {compareStats.conversations && <DeltaBadge delta={compareStats.conversations} />}
           </div>
         )}
       </div>
 
+      <ChartRangeControls
+        timeRange={timeRange}
+        onTimeRangeChange={setTimeRange}
+        customRange={chartRange}
+        onCustomRangeChange={setChartRange}
+        granularity={chartGranularity}
+        onGranularityChange={setChartGranularity}
+        weekStartsOn={weekStartsOn}
+        onWeekStartsOnChange={setWeekStartsOn}
+        timeZone={timeZone}
+        minDate={conversationBounds?.min}
+        maxDate={conversationBounds?.max}
+      />
+
       <div className="section">
         <div className="section-header">
           <div className="section-title-with-toggle">
@@ -86,12 +191,13 @@ export default function GeneralTab({
               </div>
             )}
           </div>
-          <TimeRangeSelector value={timeRange} onChange={setTimeRange} />
         </div>
         <div className="chart-container">
           <StatLineChart
             data={role === 'admin' && growthMode === 'total' ? chartData.userTotalChart : chartData.userChart}
             dataKey="users"
+            compareKey={withCompare('compareUsers')}
+            compareLabel={compareLabel}
           />
         </div>
       </div>
@@ -117,7 +223,6 @@ export default function GeneralTab({
               </button>
             </div>
           </div>
-          <TimeRangeSelector value={timeRange} onChange={setTimeRange} />
         </div>
         <div className="chart-container">
           {activeUsersMode === 'bar' ? (
@@ -130,11 +235,44 @@ export default function GeneralTab({
               returningLabel="Returning users"
             />
           ) : (
-            <StatLineChart data={chartData.activeUserChart} dataKey="activeUsers" />
+            <StatLineChart
+              data={chartData.activeUserChart}
+              dataKey="activeUsers"
+              compareKey={withCompare('compareActiveUsers')}
+              compareLabel={compareLabel}
+            />
           )}
         </div>
       </div>
 
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>User Lifecycle</h2>
+            <p className="section-subtitle">
+              Active users per {lifecyclePeriod}: new (signed up this {lifecyclePeriod}), retained (also active
+              last {lifecyclePeriod}), resurrected (inactive last {lifecyclePeriod}, not new). Churned = active
+              last {lifecyclePeriod} but not this one, drawn below zero.
+            </p>
+          </div>
+          <div className="stat-segmented">
+            {(['day', 'week', 'month'] as PeriodUnit[]).map((p) => (
+              <button
+                key={p}
+                type="button"
+                className={`stat-segmented-btn ${lifecyclePeriod === p ? 'active' : ''}`}
+                onClick={() => setLifecyclePeriod(p)}
+              >
+                {p === 'day' ? 'Daily' : p === 'week' ? 'Weekly' : 'Monthly'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="chart-container">
+          <LifecycleBarChart data={lifecycleChart} />
+        </div>
+      </div>
+
       {role === 'admin' && (
         <div className="section">
           <div className="section-header">
@@ -157,7 +295,6 @@ export default function GeneralTab({
                 </button>
               </div>
             </div>
-            <TimeRangeSelector value={timeRange} onChange={setTimeRange} />
           </div>
           <div className="chart-container">
             {conversationsMode === 'bar' ? (
@@ -170,12 +307,119 @@ export default function GeneralTab({
                 returningLabel="Conversations by returning users"
               />
             ) : (
-              <StatLineChart data={chartData.conversationChart} dataKey="conversations" />
+              <StatLineChart
+                data={chartData.conversationChart}
+                dataKey="conversations"
+                compareKey={withCompare('compareConversations')}
+                compareLabel={compareLabel}
+              />
             )}
           </div>
         </div>
       )}
 
+      {role === 'admin' && dailyActivity && (
+        <div className="section">
+          <div className="section-header">
+            <div className="section-title-with-toggle">
+              <h2>Activity Calendar</h2>
+              <div className="stat-segmented">
+                <button
+                  type="button"
+                  className={`stat-segmented-btn ${calendarMetric === 'conversations' ? 'active' : ''}`}
+                  onClick={() => setCalendarMetric('conversations')}
+                >
+                  Conversations
+                </button>
+                <button
+                  type="button"
+                  className={`stat-segmented-btn ${calendarMetric === 'users' ? 'active' : ''}`}
+                  onClick={() => setCalendarMetric('users')}
+                >
+                  Active users
+                </button>
+              </div>
+            </div>
+            <select
+              value={calendarYear}
+              onChange={(e) => setCalendarYear(e.target.value)}
+              style={{
+                padding: '6px 10px',
+                border: '1px solid #e5e5e5',
+                borderRadius: 6,
+                fontSize: 13,
+                background: '#fff',
+                fontFamily: 'inherit',
+              }}
+            >
+              <option value="">Last 12 months</option>
+              {calendarYears.map((y) => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </div>
+          <CalendarHeatmap
+            counts={dailyActivity[calendarMetric]}
+            weekStartsOn={weekStartsOn}
+            start={calendarStart}
+            end={calendarEnd}
+            unitLabel={calendarMetric === 'users' ? 'active users' : 'conversations'}
+          />
+        </div>
+      )}
+
+      {role === 'admin' && weeklyPattern && (
+        <div className="section">
+          <div className="section-header">
+            <div className="section-title-group">
+              <div className="section-title-with-toggle">
+                <h2>Weekly Activity Pattern</h2>
+                <div className="stat-segmented">
+                  <button
+                    type="button"
+                    className={`stat-segmented-btn ${weeklyPatternMetric === 'conversations' ? 'active' : ''}`}
+                    onClick={() => setWeeklyPatternMetric('conversations')}
+                  >
+                    Conversations
+                  </button>
+                  <button
+                    type="button"
+                    className={`stat-segmented-btn ${weeklyPatternMetric === 'users' ? 'active' : ''}`}
+                    onClick={() => setWeeklyPatternMetric('users')}
+                  >
+                    Unique users
+                  </button>
+                </div>
+                <label className="section-meta" style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                  <input
+                    type="checkbox"
+                    checked={weeklyPatternNormalize}
+                    onChange={(e) => setWeeklyPatternNormalize(e.target.checked)}
+                  />
+                  Normalize per day
+                </label>
+              </div>
+              <p className="section-subtitle">
+                Weekday × hour of day in the selected timezone.
+                {weeklyPatternNormalize ? ' Cells show each hour\'s share of that weekday (%).' : ''}
+              </p>
+            </div>
+            <SignupRangeFilter
+              start={weeklyPatternRange.start}
+              end={weeklyPatternRange.end}
+              minDate={conversationBounds?.min}
+              maxDate={conversationBounds?.max}
+              onChange={setWeeklyPatternRange}
+              onReset={() => setWeeklyPatternRange({ start: '', end: '' })}
+              fromLabel="From"
+            />
+          </div>
+          <HourWeekdayHeatmap
+            grid={weeklyPattern[weeklyPatternMetric]}
+            unitLabel={weeklyPatternMetric === 'users' ? 'users' : 'conversations'}
+            normalize={weeklyPatternNormalize}
+          />
+        </div>
+      )}
+
       <div className="section">
         <h2>Latest Users</h2>
         <div className="table-container">
@@ -214,7 +458,7 @@ export default function GeneralTab({
                         {sources || '—'}
                       </td>
                       <td style={{ whiteSpace: 'nowrap' }}>
-                        {user.created_at ? formatDateTime(user.created_at, tzOffsetMs) : '—'}
+                        {user.created_at ? formatDateTime(user.created_at, timeZone) : '—'}
                       </td>
                     </tr>
                   );
@@ -1,6 +1,9 @@
 import { useMemo, useState } from 'react';
 import {
   LineChart,
+  ComposedChart,
+  Area,
+  Bar,
   Line,
   XAxis,
   YAxis,
@@ -12,10 +15,12 @@ import {
   PieChart,
   Pie,
   Cell,
+  LabelList,
 } from 'recharts';
 import {
   PaidStatsResponse,
   PaidSubscription,
+  PAID_REASONS,
   bucketOfBillingReason,
 } from '../../api/getUserInfo/paid';
 import {
@@ -24,6 +29,44 @@ import {
   UserAnalytics,
   UserPollData,
 } from '../../api/getUserInfo/stats';
+import {
+  MeaningfulEvent,
+  buildActiveDaysByUser,
+  addDays,
+  toTzMs,
+  fromTzDateKey,
+  periodStartKey,
+  addPeriods,
+  shiftMonths,
+  wilsonIntervalPct,
+  COHORT_MAX_ROWS,
+  CohortRow,
+  RetentionPoint,
+  SurvivalPoint,
+  kaplanMeier,
+  extractStringLeaves,
+} from './dashboardUtils';
+import { CalendarHeatmap, CohortHeatmap, MinSampleSizeInput, heatColor } from './dashboardCharts';
+import {
+  PriceEntry,
+  BillingInterval,
+  BILLING_INTERVALS,
+  ANY_BILLING_REASON,
+  loadPriceTable,
+  storePriceTable,
+  resolvePrice,
+  monthlyAmount,
+  formatMoney,
+} from './paidPricing';
+import {
+  SortMode,
+  SORT_LABELS,
+  GRANULARITY_OPTIONS,
+  GranularityDays,
+  SurvivalSplit,
+  SURVIVAL_SPLITS,
+  PaidViewState,
+} from './paidViewState';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -38,6 +81,11 @@ const CONTINUITY_GAP_DAYS = 10;
 const RETENTION_DAYS = [1, 7, 30, 60] as const;
 const RETENTION_LINE_MAX = 60;
 
+// Columns of the paid cohort heatmaps: activity on Day N after first payment,
+// and "still paid" at month N.
+const PAID_COHORT_DAYS = [1, 7, 14, 30, 60] as const;
+const PAID_COHORT_MONTHS = [1, 2, 3, 4, 5, 6] as const;
+
 // Renewal window: a new paid span must start within this many days after a
 // span ends to count as a renewal. Also serves as the observation cutoff —
 // spans ending within the last RENEWAL_WINDOW_DAYS are "still maturing".
@@ -45,6 +93,21 @@ const RENEWAL_WINDOW_DAYS = 10;
 
 const DAY_MS = 24 * 60 * 60 * 1000;
 
+// Revenue chart: daily view covers this many days up to today; the summary
+// cards look back REVENUE_SUMMARY_DAYS.
+const REVENUE_DAILY_DAYS = 90;
+const REVENUE_SUMMARY_DAYS = 30;
+
+// LTV table columns: months since first payment (M0 … M11); the projection
+// extends each cohort to the end of the last column.
+const LTV_MAX_MONTHS = 12;
+
+// Survival curves run this many days after the first payment; the table
+// reads them off at the milestones.
+const SURVIVAL_MAX_DAYS = 365;
+const SURVIVAL_MILESTONES = [30, 90, 180, 365] as const;
+const SURVIVAL_MAX_GROUPS = 6;
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -130,20 +193,36 @@ function buildPaidSpans(paidSubs: PaidSubscription[]): PaidSpan[] {
   return spans;
 }
 
+// exact   – active on precisely Day N after the first payment
+// rolling – active on any day from Day N onward
+function returnedAfterFirstPaid(
+  days: Set<string>,
+  firstPaidAt: number,
+  n: number,
+  mode: 'exact' | 'rolling',
+  timeZone: string,
+): boolean {
+  if (mode === 'exact') return days.has(toDayKey(firstPaidAt + n * DAY_MS, timeZone));
+  for (const dayKey of days) {
+    if (fromTzDateKey(dayKey, timeZone) - firstPaidAt >= n * DAY_MS) return true;
+  }
+  return false;
+}
+
 // YYYY-MM key for a UTC ms timestamp shifted into the selected tz.
-const toMonthKey = (tsMs: number, offsetMs: number): string => {
-  const d = new Date(tsMs + offsetMs);
+const toMonthKey = (tsMs: number, timeZone: string): string => {
+  const d = new Date(toTzMs(tsMs, timeZone));
   return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
 };
 
 // YYYY-MM-DD key for a UTC ms timestamp shifted into the selected tz.
-const toDayKey = (tsMs: number, offsetMs: number): string =>
-  new Date(tsMs + offsetMs).toISOString().slice(0, 10);
+const toDayKey = (tsMs: number, timeZone: string): string =>
+  new Date(toTzMs(tsMs, timeZone)).toISOString().slice(0, 10);
 
 const formatMonthKey = (key: string): string => key; // already display-friendly
 
-const formatDateOnly = (tsMs: number, offsetMs: number): string =>
-  toDayKey(tsMs, offsetMs);
+const formatDateOnly = (tsMs: number, timeZone: string): string =>
+  toDayKey(tsMs, timeZone);
 
 const monthsFromDays = (days: number): string => {
   if (days < 30) return `${days.toFixed(0)}d`;
@@ -161,23 +240,6 @@ const formatDaysHuman = (days: number | null): string => {
 // Sortable column logic
 // ---------------------------------------------------------------------------
 
-type SortMode =
-  | 'first_paid_desc'
-  | 'first_paid_asc'
-  | 'total_days_desc'
-  | 'total_days_asc'
-  | 'signup_to_paid_asc'
-  | 'signup_to_paid_desc';
-
-const SORT_LABELS: Record<SortMode, string> = {
-  first_paid_desc: '首次付费时间 ↓ (最新)',
-  first_paid_asc: '首次付费时间 ↑ (最早)',
-  total_days_desc: '累计付费时长 ↓ (最长)',
-  total_days_asc: '累计付费时长 ↑ (最短)',
-  signup_to_paid_asc: '注册→首次付费 ↑ (最快)',
-  signup_to_paid_desc: '注册→首次付费 ↓ (最慢)',
-};
-
 function sortPaidUsers(rows: PaidUserRow[], mode: SortMode): PaidUserRow[] {
   const arr = [...rows];
   // null-safe comparator: nulls sink to the bottom regardless of direction.
@@ -341,14 +403,6 @@ function MonthlyRenewalChart({
   );
 }
 
-// Granularity options for the paid-rate chart
-const GRANULARITY_OPTIONS = [
-  { label: '1d', days: 1 },
-  { label: '3d', days: 3 },
-  { label: '7d', days: 7 },
-] as const;
-type GranularityDays = typeof GRANULARITY_OPTIONS[number]['days'];
-
 type PaidRateBucket = {
   bucket: string;
   signups: number;
@@ -367,25 +421,52 @@ type PaidRateBucket = {
   avgStrictRatePct: number;
 };
 
+// Tooltip lines shared by the paid rate and paid retention charts.
+function SampleSizeNote({ ci, n, minSampleSize }: { ci: [number, number] | null; n: number; minSampleSize: number }) {
+  return (
+    <>
+      {ci && <div style={{ color: '#888', marginBottom: 4 }}>95% 置信区间：{ci[0].toFixed(1)}% – {ci[1].toFixed(1)}%</div>}
+      {n < minSampleSize && (
+        <div style={{ color: '#fb8c00', marginBottom: 4 }}>⚠ 样本量小（{n} &lt; {minSampleSize}），仅供参考</div>
+      )}
+    </>
+  );
+}
+
 function PaidRateChart({
   data,
   maxPct,
   view,
+  minSampleSize,
 }: {
   data: PaidRateBucket[];
   maxPct: number;
   view: 'broad' | 'strict';
+  minSampleSize: number;
 }) {
   if (data.length === 0) {
     return <div className="empty-state">No signup data yet</div>;
   }
+  // Only the strict view is a proportion of signups (one first payment per
+  // user); the broad count includes renewals and repeat one-offs, so it gets
+  // no confidence band.
+  const rows = data.map((d) => ({
+    ...d,
+    ci: view === 'strict' ? wilsonIntervalPct(d.strictTotal, d.signups) : null,
+  }));
+  const renderDot = (props: { cx?: number; cy?: number; index?: number; payload?: PaidRateBucket }) => {
+    const { cx, cy, index, payload } = props;
+    if (cx == null || cy == null || !payload || payload.signups >= minSampleSize) return <g key={`dot-${index}`} />;
+    return <circle key={`dot-${index}`} cx={cx} cy={cy} r={3} fill="#ffffff" stroke="#bbbbbb" />;
+  };
   return (
     <ResponsiveContainer width="100%" height={320}>
-      <LineChart data={data} margin={{ top: 16, right: 24, bottom: 8, left: 0 }}>
+      <ComposedChart data={rows} margin={{ top: 16, right: 24, bottom: 8, left: 0 }}>
         <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
         <XAxis dataKey="bucket" stroke="#666" style={{ fontSize: 11 }} tick={{ fill: '#666' }} />
         <YAxis
           domain={[0, maxPct]}
+          allowDataOverflow
           stroke="#666"
           style={{ fontSize: 12 }}
           tick={{ fill: '#666' }}
@@ -395,7 +476,7 @@ function PaidRateChart({
           contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e5e5', borderRadius: 8, fontSize: 12 }}
           content={({ active, payload, label }) => {
             if (!active || !payload?.length) return null;
-            const d = payload[0].payload as PaidRateBucket;
+            const d = payload[0].payload as PaidRateBucket & { ci: [number, number] | null };
             if (view === 'strict') {
               return (
                 <div style={{ background: '#fff', border: '1px solid #e5e5e5', borderRadius: 8, padding: '10px 14px', fontSize: 12 }}>
@@ -404,6 +485,7 @@ function PaidRateChart({
                   <div style={{ color: '#34a853', marginBottom: 4 }}>
                     首次付费率：{d.strictRatePct.toFixed(1)}%（{d.strictTotal} 人）
                   </div>
+                  <SampleSizeNote ci={d.ci} n={d.signups} minSampleSize={minSampleSize} />
                   <div style={{ color: '#aaa', borderTop: '1px solid #f0f0f0', paddingTop: 4 }}>
                     区间平均：{d.avgStrictRatePct.toFixed(1)}%
                   </div>
@@ -423,6 +505,7 @@ function PaidRateChart({
                 <div style={{ color: '#4285f4', marginBottom: 4, paddingLeft: 10 }}>
                   └ Subscription：{d.subscriptionRatePct.toFixed(1)}%（{d.subscription} 人）
                 </div>
+                <SampleSizeNote ci={d.ci} n={d.signups} minSampleSize={minSampleSize} />
                 <div style={{ color: '#aaa', borderTop: '1px solid #f0f0f0', paddingTop: 4 }}>
                   区间平均付费率：{d.avgPaidRatePct.toFixed(1)}%
                 </div>
@@ -431,6 +514,18 @@ function PaidRateChart({
           }}
         />
         <Legend />
+        {view === 'strict' && (
+          <Area
+            type="monotone"
+            dataKey="ci"
+            stroke="none"
+            fill="#34a853"
+            fillOpacity={0.1}
+            isAnimationActive={false}
+            activeDot={false}
+            legendType="none"
+          />
+        )}
         {view === 'strict' ? (
           <>
             <Line
@@ -450,7 +545,7 @@ function PaidRateChart({
               name="首次付费率"
               stroke="#34a853"
               strokeWidth={2}
-              dot={false}
+              dot={renderDot}
               isAnimationActive={false}
             />
           </>
@@ -473,7 +568,7 @@ function PaidRateChart({
               name="总付费率"
               stroke="#ea4335"
               strokeWidth={2}
-              dot={false}
+              dot={renderDot}
               isAnimationActive={false}
             />
             <Line
@@ -496,23 +591,36 @@ function PaidRateChart({
             />
           </>
         )}
-      </LineChart>
+      </ComposedChart>
     </ResponsiveContainer>
   );
 }
 
+type PaidRetentionPoint = { day: number; ratePct: number; eligible: number; returned: number; mature: boolean };
+
 function RetentionLineChart({
   data,
+  minSampleSize,
 }: {
-  data: Array<{ day: number; ratePct: number; eligible: number; returned: number; mature: boolean }>;
+  data: PaidRetentionPoint[];
+  minSampleSize: number;
 }) {
   if (data.length === 0) {
     return <div className="empty-state">No retention data yet</div>;
   }
+  // Days under the sample threshold are drawn on a dashed line instead; the
+  // neighbouring point is repeated there so both lines stay connected.
+  const isLow = (p: PaidRetentionPoint | undefined) => !!p && p.eligible > 0 && p.eligible < minSampleSize;
+  const rows = data.map((p, i) => ({
+    ...p,
+    solidRatePct: isLow(p) ? null : p.ratePct,
+    lowRatePct: isLow(p) || isLow(data[i - 1]) || isLow(data[i + 1]) ? p.ratePct : null,
+    ci: wilsonIntervalPct(p.returned, p.eligible),
+  }));
   return (
     <ResponsiveContainer width="100%" height={320}>
-      <LineChart
-        data={data}
+      <ComposedChart
+        data={rows}
         margin={{ top: 16, right: 24, bottom: 8, left: 0 }}
       >
         <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
@@ -531,40 +639,518 @@ function RetentionLineChart({
           tickFormatter={(v) => `${v}%`}
         />
         <Tooltip
-          contentStyle={{
-            backgroundColor: '#ffffff',
-            border: '1px solid #e5e5e5',
-            borderRadius: 8,
-            fontSize: 12,
-          }}
-          formatter={(value: number, _name: string, item: { payload?: { eligible: number; returned: number; mature: boolean } }) => {
-            const p = item?.payload;
-            const suffix = p?.mature ? '' : ' (immature)';
-            return [
-              `${value.toFixed(1)}% (${p?.returned ?? 0}/${p?.eligible ?? 0})${suffix}`,
-              `By Day`,
-            ];
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+            const p = payload[0].payload as (typeof rows)[number];
+            return (
+              <div style={{ background: '#fff', border: '1px solid #e5e5e5', borderRadius: 8, padding: '10px 14px', fontSize: 12 }}>
+                <div style={{ fontWeight: 500, marginBottom: 6 }}>Day {p.day}</div>
+                <div style={{ color: '#4285f4', marginBottom: 4 }}>
+                  {p.ratePct.toFixed(1)}%（{p.returned}/{p.eligible}）{p.mature ? '' : ' (immature)'}
+                </div>
+                <SampleSizeNote ci={p.ci} n={p.eligible} minSampleSize={minSampleSize} />
+              </div>
+            );
           }}
-          labelFormatter={(label) => `Day ${label}`}
+        />
+        <Area
+          type="monotone"
+          dataKey="ci"
+          stroke="none"
+          fill="#4285f4"
+          fillOpacity={0.1}
+          isAnimationActive={false}
+          activeDot={false}
         />
         <Line
           type="monotone"
-          dataKey="ratePct"
+          dataKey="solidRatePct"
           stroke="#4285f4"
           strokeWidth={2}
           dot={false}
           isAnimationActive={false}
+          connectNulls={false}
         />
-      </LineChart>
+        <Line
+          type="monotone"
+          dataKey="lowRatePct"
+          stroke="#9bbcf7"
+          strokeWidth={1.5}
+          strokeDasharray="4 3"
+          dot={false}
+          isAnimationActive={false}
+          connectNulls={false}
+        />
+      </ComposedChart>
     </ResponsiveContainer>
   );
 }
 
+type RevenueBucket = {
+  bucket: string;
+  revenue: number;
+  payers: number;
+  arppu: number;
+  mrr: number;
+};
+
+function RevenueChart({ data, currency }: { data: RevenueBucket[]; currency: string }) {
+  if (data.length === 0) {
+    return <div className="empty-state">No priced payments yet</div>;
+  }
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <ComposedChart data={data} margin={{ top: 16, right: 24, bottom: 8, left: 8 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="bucket" stroke="#666" style={{ fontSize: 11 }} tick={{ fill: '#666' }} />
+        <YAxis
+          stroke="#666"
+          style={{ fontSize: 12 }}
+          tick={{ fill: '#666' }}
+          tickFormatter={(v) => formatMoney(Number(v), currency)}
+        />
+        <Tooltip
+          content={({ active, payload, label }) => {
+            if (!active || !payload?.length) return null;
+            const d = payload[0].payload as RevenueBucket;
+            return (
+              <div style={{ background: '#fff', border: '1px solid #e5e5e5', borderRadius: 8, padding: '10px 14px', fontSize: 12 }}>
+                <div style={{ fontWeight: 500, marginBottom: 6 }}>{label}</div>
+                <div style={{ color: '#4285f4', marginBottom: 4 }}>收入：{formatMoney(d.revenue, currency)}</div>
+                <div style={{ color: '#34a853', marginBottom: 4 }}>MRR：{formatMoney(d.mrr, currency)}</div>
+                <div style={{ color: '#fb8c00', marginBottom: 4 }}>ARPPU：{formatMoney(d.arppu, currency)}</div>
+                <div style={{ color: '#aaa', borderTop: '1px solid #f0f0f0', paddingTop: 4 }}>付费用户：{d.payers}</div>
+              </div>
+            );
+          }}
+        />
+        <Legend />
+        <Bar dataKey="revenue" name="收入" fill="#4285f4" fillOpacity={0.7} isAnimationActive={false} />
+        <Line type="monotone" dataKey="mrr" name="MRR" stroke="#34a853" strokeWidth={2} dot={false} isAnimationActive={false} />
+        <Line
+          type="monotone"
+          dataKey="arppu"
+          name="ARPPU"
+          stroke="#fb8c00"
+          strokeWidth={1.5}
+          strokeDasharray="6 3"
+          dot={false}
+          isAnimationActive={false}
+          legendType="plainline"
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+type MrrMovementMonth = {
+  month: string;
+  opening: number;
+  newMrr: number;
+  reactivation: number;
+  expansion: number;
+  contraction: number; // <= 0
+  churn: number;       // <= 0
+  closing: number;
+  // MRR of records that continued an existing span this month (retained, so
+  // it doesn't move the total)
+  renewal: number;
+  // churn is provisional: a span ended within the renewal window
+  maturing: boolean;
+};
+
+const MRR_MOVEMENT_STEPS: { key: 'newMrr' | 'reactivation' | 'expansion' | 'contraction' | 'churn'; label: string; color: string }[] = [
+  { key: 'newMrr', label: '新增', color: '#34a853' },
+  { key: 'reactivation', label: '回流', color: '#4285f4' },
+  { key: 'expansion', label: '扩张', color: '#00acc1' },
+  { key: 'contraction', label: '收缩', color: '#fb8c00' },
+  { key: 'churn', label: '流失', color: '#ea4335' },
+];
+
+// Net MRR movement per month: positive steps stacked above zero, losses below.
+function MrrMovementChart({
+  data,
+  currency,
+  selected,
+  onSelect,
+}: {
+  data: MrrMovementMonth[];
+  currency: string;
+  selected: string;
+  onSelect: (month: string) => void;
+}) {
+  if (data.length === 0) {
+    return <div className="empty-state">No priced recurring subscriptions yet</div>;
+  }
+  const rows = data.map((d) => ({ ...d, net: d.closing - d.opening }));
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <ComposedChart
+        data={rows}
+        stackOffset="sign"
+        margin={{ top: 16, right: 24, bottom: 8, left: 8 }}
+        onClick={(state) => {
+          const month = state?.activeLabel;
+          if (month != null) onSelect(String(month));
+        }}
+        style={{ cursor: 'pointer' }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="month" stroke="#666" style={{ fontSize: 11 }} tick={{ fill: '#666' }} />
+        <YAxis stroke="#666" style={{ fontSize: 12 }} tick={{ fill: '#666' }} tickFormatter={(v) => formatMoney(Number(v), currency)} />
+        <Tooltip
+          content={({ active, payload, label }) => {
+            if (!active || !payload?.length) return null;
+            const d = payload[0].payload as MrrMovementMonth & { net: number };
+            return (
+              <div style={{ background: '#fff', border: '1px solid #e5e5e5', borderRadius: 8, padding: '10px 14px', fontSize: 12 }}>
+                <div style={{ fontWeight: 500, marginBottom: 6 }}>
+                  {label}
+                  {d.maturing && <span style={{ color: '#aaa', fontWeight: 400 }}> ⏳ 观察中</span>}
+                </div>
+                {MRR_MOVEMENT_STEPS.map((s) => (
+                  <div key={s.key} style={{ color: s.color, marginBottom: 2 }}>
+                    {s.label}：{formatMoney(d[s.key], currency)}
+                  </div>
+                ))}
+                <div style={{ color: '#666', marginTop: 4 }}>续费（留存）：{formatMoney(d.renewal, currency)}</div>
+                <div style={{ color: '#333', borderTop: '1px solid #f0f0f0', paddingTop: 4, marginTop: 4 }}>
+                  净变动：{formatMoney(d.net, currency)} · 期末 MRR {formatMoney(d.closing, currency)}
+                </div>
+              </div>
+            );
+          }}
+        />
+        <Legend />
+        {MRR_MOVEMENT_STEPS.map((s) => (
+          <Bar key={s.key} dataKey={s.key} name={s.label} stackId="mrr" fill={s.color} isAnimationActive={false}>
+            {rows.map((d) => (
+              <Cell key={d.month} fillOpacity={selected === d.month ? 1 : 0.6} />
+            ))}
+          </Bar>
+        ))}
+        <Line type="monotone" dataKey="net" name="净变动" stroke="#333" strokeWidth={1.5} dot={{ r: 2 }} isAnimationActive={false} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+// Opening MRR → each movement → closing MRR for one month. Every step is a
+// bar floating on an invisible base so the steps chain visually.
+function MrrWaterfallChart({ month, currency }: { month: MrrMovementMonth; currency: string }) {
+  const steps: Array<{ name: string; base: number; value: number; color: string; delta: number }> = [];
+  steps.push({ name: '期初 MRR', base: 0, value: month.opening, color: '#9e9e9e', delta: month.opening });
+  let running = month.opening;
+  for (const s of MRR_MOVEMENT_STEPS) {
+    const delta = month[s.key];
+    const next = running + delta;
+    steps.push({ name: s.label, base: Math.min(running, next), value: Math.abs(delta), color: s.color, delta });
+    running = next;
+  }
+  steps.push({ name: '期末 MRR', base: 0, value: month.closing, color: '#333333', delta: month.closing });
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <ComposedChart data={steps} margin={{ top: 24, right: 24, bottom: 8, left: 8 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" vertical={false} />
+        <XAxis dataKey="name" stroke="#666" style={{ fontSize: 12 }} tick={{ fill: '#666' }} />
+        <YAxis stroke="#666" style={{ fontSize: 12 }} tick={{ fill: '#666' }} tickFormatter={(v) => formatMoney(Number(v), currency)} />
+        <Tooltip
+          cursor={{ fill: 'rgba(0, 0, 0, 0.03)' }}
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+            const d = payload[0].payload as (typeof steps)[number];
+            return (
+              <div style={{ background: '#fff', border: '1px solid #e5e5e5', borderRadius: 8, padding: '8px 12px', fontSize: 12 }}>
+                <span style={{ color: d.color }}>{d.name}</span>：{formatMoney(d.delta, currency)}
+              </div>
+            );
+          }}
+        />
+        <Bar dataKey="base" stackId="w" fill="transparent" isAnimationActive={false} />
+        <Bar dataKey="value" stackId="w" isAnimationActive={false}>
+          {steps.map((s) => (
+            <Cell key={s.name} fill={s.color} />
+          ))}
+          <LabelList
+            dataKey="delta"
+            position="top"
+            style={{ fontSize: 11, fill: '#555' }}
+            formatter={(v) => formatMoney(Number(v), currency)}
+          />
+        </Bar>
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+type LtvCohortRow = {
+  cohort: string; // YYYY-MM of first payment
+  size: number;
+  // Cumulative value per cohort user at the end of month-since-first-paid k;
+  // null once the month hasn't started yet.
+  cells: Array<{ value: number; complete: boolean } | null>;
+  projected: number | null;
+};
+
+function LtvCohortTable({ rows, format }: { rows: LtvCohortRow[]; format: (v: number) => string }) {
+  if (rows.length === 0) return <div className="empty-state">No paid cohorts yet</div>;
+  const max = Math.max(1e-9, ...rows.flatMap((r) => [r.projected ?? 0, ...r.cells.map((c) => c?.value ?? 0)]));
+  const shade = (v: number) => ({
+    background: heatColor(15 + (v / max) * 85),
+    color: v / max >= 0.5 ? '#ffffff' : '#1a1a1a',
+  });
+  return (
+    <div className="cohort-heatmap">
+      <table>
+        <thead>
+          <tr>
+            <th>首次付费月</th>
+            <th>Users</th>
+            {rows[0].cells.map((_, k) => <th key={k}>M{k}</th>)}
+            <th>预测 {LTV_MAX_MONTHS} 个月</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.cohort}>
+              <td className="cohort-heatmap-label">{row.cohort}</td>
+              <td className="cohort-heatmap-size">{row.size}</td>
+              {row.cells.map((c, k) => {
+                if (!c) {
+                  return <td key={k} className="cohort-heatmap-cell immature" title={`${row.cohort} · M${k} · not reached yet`} />;
+                }
+                return (
+                  <td
+                    key={k}
+                    className="cohort-heatmap-cell"
+                    style={{ ...shade(c.value), opacity: c.complete ? 1 : 0.6 }}
+                    title={`${row.cohort} · M${k} · ${format(c.value)} per user${c.complete ? '' : ' (month in progress)'}`}
+                  >
+                    {format(c.value)}
+                  </td>
+                );
+              })}
+              <td
+                className="cohort-heatmap-cell"
+                style={row.projected != null ? { ...shade(row.projected), fontWeight: 600 } : undefined}
+                title={row.projected != null ? `${row.cohort} · projected ${LTV_MAX_MONTHS}-month value per user` : 'No complete month yet'}
+              >
+                {row.projected != null ? format(row.projected) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Inline editor for the local price table. Records whose API row has no
+// amount are priced from here.
+function PriceTableEditor({
+  entries,
+  onChange,
+  tiers,
+}: {
+  entries: PriceEntry[];
+  onChange: (entries: PriceEntry[]) => void;
+  tiers: string[];
+}) {
+  const update = (i: number, patch: Partial<PriceEntry>) =>
+    onChange(entries.map((e, j) => (j === i ? { ...e, ...patch } : e)));
+  const inputStyle = {
+    padding: '4px 8px',
+    border: '1px solid #e5e5e5',
+    borderRadius: 6,
+    fontSize: 12,
+    fontFamily: 'inherit',
+    background: '#fff',
+  };
+  return (
+    <div style={{ marginBottom: 16, background: '#fafafa', borderRadius: 8, padding: '12px 16px' }}>
+      <table className="numeric-table">
+        <thead>
+          <tr>
+            <th>Tier</th>
+            <th>billing_reason</th>
+            <th>金额</th>
+            <th>币种</th>
+            <th>周期</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((e, i) => (
+            <tr key={i}>
+              <td>
+                <select value={e.tier} onChange={(ev) => update(i, { tier: ev.target.value })} style={inputStyle}>
+                  {[...new Set([...tiers, e.tier])].map((t) => (
+                    <option key={t} value={t}>{t}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <select value={e.billingReason} onChange={(ev) => update(i, { billingReason: ev.target.value })} style={inputStyle}>
+                  <option value={ANY_BILLING_REASON}>任意</option>
+                  {[...PAID_REASONS].map((r) => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={e.amount}
+                  onChange={(ev) => {
+                    const n = parseFloat(ev.target.value);
+                    if (Number.isFinite(n) && n >= 0) update(i, { amount: n });
+                  }}
+                  style={{ ...inputStyle, width: 80 }}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={e.currency}
+                  maxLength={3}
+                  onChange={(ev) => update(i, { currency: ev.target.value.toUpperCase() })}
+                  style={{ ...inputStyle, width: 48 }}
+                />
+              </td>
+              <td>
+                <select
+                  value={e.interval}
+                  onChange={(ev) => update(i, { interval: ev.target.value as BillingInterval })}
+                  style={inputStyle}
+                >
+                  {BILLING_INTERVALS.map(({ key, label }) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="signup-range-reset"
+                  onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                >
+                  删除
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        className="signup-range-reset"
+        style={{ marginTop: 8 }}
+        onClick={() =>
+          onChange([
+            ...entries,
+            { tier: tiers[0] ?? 'pro', billingReason: ANY_BILLING_REASON, amount: 0, currency: 'USD', interval: 'month' },
+          ])
+        }
+      >
+        + 添加价格
+      </button>
+    </div>
+  );
+}
+
 const PIE_COLORS = [
   '#6366f1', '#22c55e', '#f59e0b', '#ef4444', '#3b82f6',
   '#a855f7', '#14b8a6', '#f97316', '#ec4899', '#84cc16',
 ];
 
+type SurvivalGroup = {
+  label: string;
+  users: number;
+  events: number;
+  censored: number;
+  medianDays: number | null;
+  points: SurvivalPoint[];
+};
+
+const survivalAt = (g: SurvivalGroup, day: number): number | null => g.points[day]?.survivalPct ?? null;
+
+function SurvivalChart({ groups }: { groups: SurvivalGroup[] }) {
+  if (groups.length === 0) {
+    return <div className="empty-state">No paid users yet</div>;
+  }
+  const maxDay = Math.max(...groups.map((g) => g.points.length - 1));
+  const rows = Array.from({ length: maxDay + 1 }, (_, day) => {
+    const row: Record<string, number | null> = { day };
+    groups.forEach((g, i) => {
+      row[`g${i}`] = g.points[day]?.survivalPct ?? null;
+      row[`g${i}n`] = g.points[day]?.atRisk ?? null;
+    });
+    return row;
+  });
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <LineChart data={rows} margin={{ top: 16, right: 24, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis
+          dataKey="day"
+          type="number"
+          domain={[0, maxDay]}
+          stroke="#666666"
+          style={{ fontSize: 12 }}
+          tick={{ fill: '#666666' }}
+          tickFormatter={(v) => `D${v}`}
+        />
+        <YAxis
+          domain={[0, 100]}
+          stroke="#666666"
+          style={{ fontSize: 12 }}
+          tick={{ fill: '#666666' }}
+          tickFormatter={(v) => `${v}%`}
+        />
+        <Tooltip
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+            const row = payload[0].payload as Record<string, number | null>;
+            return (
+              <div style={{ background: '#fff', border: '1px solid #e5e5e5', borderRadius: 8, padding: '10px 14px', fontSize: 12 }}>
+                <div style={{ fontWeight: 500, marginBottom: 6 }}>Day {row.day}</div>
+                {groups.map((g, i) => {
+                  const pct = row[`g${i}`];
+                  return (
+                    <div key={g.label} style={{ display: 'flex', gap: 8, lineHeight: 1.6 }}>
+                      <span style={{ color: PIE_COLORS[i % PIE_COLORS.length] }}>●</span>
+                      <span>{g.label}</span>
+                      <span style={{ marginLeft: 'auto', color: '#666' }}>
+                        {pct != null ? <><strong style={{ color: '#333' }}>{pct.toFixed(1)}%</strong> · 在险 {row[`g${i}n`]}</> : '—'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          }}
+        />
+        {groups.length > 1 && <Legend />}
+        {groups.map((g, i) => (
+          <Line
+            key={g.label}
+            type="stepAfter"
+            dataKey={`g${i}`}
+            name={g.label}
+            stroke={PIE_COLORS[i % PIE_COLORS.length]}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+            connectNulls={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
 // Pie chart + legend showing top N slices with an "Other" bucket
 function GeoBreakdownPie({ data, title }: { data: [string, number][]; title: string }) {
   const total = data.reduce((s, [, c]) => s + c, 0);
@@ -627,10 +1213,14 @@ function GeoBreakdownPie({ data, title }: { data: [string, number][]; title: str
 
 function PaidUsersTable({
   rows,
-  tzOffsetMs,
+  dailyActivityByUser,
+  activityLabel,
+  timeZone,
 }: {
   rows: PaidUserRow[];
-  tzOffsetMs: number;
+  dailyActivityByUser?: Map<string, Map<string, number>>;
+  activityLabel: string;
+  timeZone: string;
 }) {
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const toggle = (uid: string) => {
@@ -683,7 +1273,9 @@ function PaidUsersTable({
                 label={label}
                 isOpen={isOpen}
                 onToggle={() => toggle(u.user_id)}
-                tzOffsetMs={tzOffsetMs}
+                userDays={dailyActivityByUser?.get(u.user_id)}
+                activityLabel={activityLabel}
+                timeZone={timeZone}
               />
             );
           })}
@@ -698,13 +1290,17 @@ function PaidUserTableRow({
   label,
   isOpen,
   onToggle,
-  tzOffsetMs,
+  userDays,
+  activityLabel,
+  timeZone,
 }: {
   row: PaidUserRow;
   label: string;
   isOpen: boolean;
   onToggle: () => void;
-  tzOffsetMs: number;
+  userDays?: Map<string, number>;
+  activityLabel: string;
+  timeZone: string;
 }) {
   return (
     <>
@@ -750,7 +1346,7 @@ function PaidUserTableRow({
           )}
         </td>
         <td>{row.tierMix}</td>
-        <td>{formatDateOnly(row.firstPaidAt, tzOffsetMs)}</td>
+        <td>{formatDateOnly(row.firstPaidAt, timeZone)}</td>
         <td>{formatDaysHuman(row.signupToFirstPaidDays)}</td>
         <td>
           {row.totalPaidDays.toFixed(0)}d
@@ -803,7 +1399,7 @@ function PaidUserTableRow({
             {/* Meta info row */}
             <div style={{ fontSize: 12, color: '#666', marginBottom: 10, display: 'flex', gap: 20, flexWrap: 'wrap' }}>
               <span>
-                Signup: {row.signupAt != null ? formatDateOnly(row.signupAt, tzOffsetMs) : '—'}
+                Signup: {row.signupAt != null ? formatDateOnly(row.signupAt, timeZone) : '—'}
               </span>
               <span>
                 user_id: <code style={{ fontFamily: 'Monaco, monospace' }}>{row.user_id}</code>
@@ -842,6 +1438,18 @@ function PaidUserTableRow({
               )}
             </div>
 
+            {/* Daily activity, last 12 months */}
+            {userDays && (
+              <div style={{ marginBottom: 12 }}>
+                <CalendarHeatmap
+                  counts={userDays}
+                  start={addDays(toDayKey(Date.now(), timeZone), -364)}
+                  end={toDayKey(Date.now(), timeZone)}
+                  unitLabel={activityLabel.toLowerCase()}
+                />
+              </div>
+            )}
+
             {/* Paid spans table */}
             <table style={{ width: '100%', fontSize: 12 }}>
               <thead>
@@ -859,8 +1467,8 @@ function PaidUserTableRow({
                   return (
                     <tr key={i}>
                       <td style={{ padding: '4px 8px' }}>{i + 1}</td>
-                      <td style={{ padding: '4px 8px' }}>{formatDateOnly(span.start, tzOffsetMs)}</td>
-                      <td style={{ padding: '4px 8px' }}>{formatDateOnly(span.end, tzOffsetMs)}</td>
+                      <td style={{ padding: '4px 8px' }}>{formatDateOnly(span.start, timeZone)}</td>
+                      <td style={{ padding: '4px 8px' }}>{formatDateOnly(span.end, timeZone)}</td>
                       <td style={{ padding: '4px 8px' }}>{days.toFixed(0)}</td>
                       <td style={{ padding: '4px 8px', color: '#555' }}>
                         {span.subs.map((s) => `${s.tier}/${s.billing_reason ?? '—'}`).join(', ')}
@@ -911,12 +1519,12 @@ function SidebarBucket({
   title,
   description,
   rows,
-  tzOffsetMs,
+  timeZone,
 }: {
   title: string;
   description: string;
   rows: SidebarUserRow[];
-  tzOffsetMs: number;
+  timeZone: string;
 }) {
   const [expanded, setExpanded] = useState(false);
   return (
@@ -1009,7 +1617,7 @@ function SidebarBucket({
                   {label}
                 </span>
                 <span style={{ color: '#999', flexShrink: 0 }}>
-                  {u.count}× · {formatDateOnly(u.latestAt, tzOffsetMs)}
+                  {u.count}× · {formatDateOnly(u.latestAt, timeZone)}
                 </span>
               </li>
             );
@@ -1040,12 +1648,12 @@ function RecentPaymentsList({
   title,
   description,
   rows,
-  tzOffsetMs,
+  timeZone,
 }: {
   title: string;
   description: string;
   rows: RecentPaymentRow[];
-  tzOffsetMs: number;
+  timeZone: string;
 }) {
   return (
     <div className="chart-container" style={{ padding: 20 }}>
@@ -1105,7 +1713,7 @@ function RecentPaymentsList({
                   {label}
                 </span>
                 <span style={{ color: '#888', flexShrink: 0 }}>
-                  {r.tier} · {formatDateOnly(r.startedAt, tzOffsetMs)}
+                  {r.tier} · {formatDateOnly(r.startedAt, timeZone)}
                 </span>
               </li>
             );
@@ -1123,25 +1731,61 @@ function RecentPaymentsList({
 export default function PaidTab({
   stats,
   paidStats,
-  tzOffsetMs,
+  activityEvents,
+  dailyActivityByUser,
+  activityLabel,
+  timeZone,
+  view,
+  onViewChange,
+  minSampleSize,
+  onMinSampleSizeChange,
 }: {
   stats: StatsResponse;
   paidStats: PaidStatsResponse;
-  tzOffsetMs: number;
+  /** Events that count as "active" (header selector); drives paid retention */
+  activityEvents: MeaningfulEvent[];
+  /** user_id -> local day -> activity count; per-user calendar in the expanded table row */
+  dailyActivityByUser: Map<string, Map<string, number>>;
+  /** "Conversations" when only send_message counts as activity, else "Events" */
+  activityLabel: string;
+  timeZone: string;
+  view: PaidViewState;
+  onViewChange: (patch: Partial<PaidViewState>) => void;
+  /** Rates over fewer users than this are faded and flagged */
+  minSampleSize: number;
+  onMinSampleSizeChange: (n: number) => void;
 }) {
-  const [sortMode, setSortMode] = useState<SortMode>('first_paid_desc');
-  const [paidRateGranularity, setPaidRateGranularity] = useState<GranularityDays>(1);
-  const [retentionMode, setRetentionMode] = useState<'exact' | 'rolling'>('exact');
-  // broad = all paid events incl. renewals; strict = first-time only, no repeat one-offs
-  const [paidRateView, setPaidRateView] = useState<'broad' | 'strict'>('broad');
-
-  // Default: last 30 days up to today (computed once at mount using prop tzOffsetMs).
-  const [paidRateStartDate, setPaidRateStartDate] = useState<string>(() =>
-    toDayKey(Date.now() - 30 * DAY_MS, tzOffsetMs),
-  );
-  const [paidRateEndDate, setPaidRateEndDate] = useState<string>(() =>
-    toDayKey(Date.now(), tzOffsetMs),
-  );
+  const {
+    sortMode,
+    paidRateGranularity,
+    retentionMode,
+    paidRateView,
+    paidRateStartDate,
+    paidRateEndDate,
+    userFilter,
+    revenueGranularity,
+    ltvMetric,
+    survivalSplit,
+  } = view;
+  const setSortMode = (v: SortMode) => onViewChange({ sortMode: v });
+  const setPaidRateGranularity = (v: GranularityDays) => onViewChange({ paidRateGranularity: v });
+  const setRetentionMode = (v: 'exact' | 'rolling') => onViewChange({ retentionMode: v });
+  const setPaidRateView = (v: 'broad' | 'strict') => onViewChange({ paidRateView: v });
+  const setPaidRateStartDate = (v: string) => onViewChange({ paidRateStartDate: v });
+  const setPaidRateEndDate = (v: string) => onViewChange({ paidRateEndDate: v });
+  const setUserFilter = (v: 'all' | 'active' | 'churned') => onViewChange({ userFilter: v });
+  const setRevenueGranularity = (v: 'day' | 'month') => onViewChange({ revenueGranularity: v });
+  const setRevenueCurrency = (v: string) => onViewChange({ revenueCurrency: v });
+  const setMrrMonth = (v: string) => onViewChange({ mrrMonth: v });
+  const setLtvMetric = (v: 'days' | 'revenue') => onViewChange({ ltvMetric: v });
+  const setSurvivalSplit = (v: SurvivalSplit) => onViewChange({ survivalSplit: v });
+
+  const [priceTable, setPriceTable] = useState<PriceEntry[]>(loadPriceTable);
+  const [showPriceTable, setShowPriceTable] = useState(false);
+  const updatePriceTable = (entries: PriceEntry[]) => {
+    setPriceTable(entries);
+    storePriceTable(entries);
+  };
 
   // ----- Index lookups -------------------------------------------------------
   const userBasicById = useMemo(() => {
@@ -1173,22 +1817,11 @@ export default function PaidTab({
     return m;
   }, [stats]);
 
-  // user_id -> Set of YYYY-MM-DD days they had any conversation activity on.
-  const activeDaysByUser = useMemo(() => {
-    const m = new Map<string, Set<string>>();
-    for (const c of stats.conversation_history ?? []) {
-      const ts = parseTs(c.created_at);
-      if (ts == null) continue;
-      const day = toDayKey(ts, tzOffsetMs);
-      let set = m.get(c.user_id);
-      if (!set) {
-        set = new Set();
-        m.set(c.user_id, set);
-      }
-      set.add(day);
-    }
-    return m;
-  }, [stats, tzOffsetMs]);
+  // user_id -> Set of YYYY-MM-DD days they had any meaningful activity on.
+  const activeDaysByUser = useMemo(
+    () => buildActiveDaysByUser(activityEvents, timeZone),
+    [activityEvents, timeZone],
+  );
 
   // ----- Bucket the subscriptions ------------------------------------------
   const bucketed = useMemo(() => {
@@ -1334,7 +1967,7 @@ export default function PaidTab({
       const expiresAt = parseTs(s.expires_at);
       if (expiresAt == null) continue;
 
-      const monthKey = toMonthKey(expiresAt, tzOffsetMs);
+      const monthKey = toMonthKey(expiresAt, timeZone);
       const bucket = ensureBucket(monthKey);
 
       if (expiresAt > matureThreshold) {
@@ -1360,7 +1993,7 @@ export default function PaidTab({
         maturing: b.hasMaturing,
       }))
       .sort((a, b) => (a.month < b.month ? -1 : a.month > b.month ? 1 : 0));
-  }, [bucketed.paid, tzOffsetMs]);
+  }, [bucketed.paid, timeZone]);
 
   // ----- Retention (D1 – D60) ---------------------------------------------
   // Day 0 = first paid sub start.
@@ -1384,23 +2017,7 @@ export default function PaidTab({
         const days = activeDaysByUser.get(u.user_id);
         if (!days) continue;
 
-        if (retentionMode === 'exact') {
-          // Active on precisely Day N
-          const exactDayKey = toDayKey(u.firstPaidAt + n * DAY_MS, tzOffsetMs);
-          if (days.has(exactDayKey)) returned += 1;
-        } else {
-          // Rolling: active on any day from Day N onward
-          let hit = false;
-          for (const dayKey of days) {
-            const diffMs =
-              new Date(dayKey).getTime() - tzOffsetMs - u.firstPaidAt;
-            if (diffMs >= n * DAY_MS) {
-              hit = true;
-              break;
-            }
-          }
-          if (hit) returned += 1;
-        }
+        if (returnedAfterFirstPaid(days, u.firstPaidAt, n, retentionMode, timeZone)) returned += 1;
       }
       points.push({
         day: n,
@@ -1411,7 +2028,78 @@ export default function PaidTab({
       });
     }
     return points;
-  }, [paidUsers, activeDaysByUser, retentionMode, tzOffsetMs]);
+  }, [paidUsers, activeDaysByUser, retentionMode, timeZone]);
+
+  // ----- Retention by first-paid cohort -------------------------------------
+  // Same rules as retentionLine, split by the month of firstPaidAt. A cell is
+  // immature until at least one cohort user has reached that day / month.
+  // Subscription retention: share of the cohort with a paid span covering the
+  // instant N calendar months after their first payment.
+  const paidCohortRetention = useMemo(() => {
+    const now = Date.now();
+    const byCohort = new Map<string, PaidUserRow[]>();
+    for (const u of paidUsers) {
+      const key = toMonthKey(u.firstPaidAt, timeZone);
+      const arr = byCohort.get(key) ?? [];
+      arr.push(u);
+      byCohort.set(key, arr);
+    }
+    const toPoint = (day: number, returned: number, eligible: number): RetentionPoint => ({
+      day,
+      ratePct: eligible > 0 ? (returned / eligible) * 100 : 0,
+      returned,
+      eligible,
+      hasData: eligible > 0,
+      mature: eligible > 0,
+    });
+    // Same local time n months later in the selected tz.
+    const monthsAfter = (ts: number, n: number): number => {
+      const dayKey = toDayKey(ts, timeZone);
+      return fromTzDateKey(shiftMonths(dayKey, n), timeZone) + (ts - fromTzDateKey(dayKey, timeZone));
+    };
+
+    const cohorts = Array.from(byCohort.entries())
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .slice(-COHORT_MAX_ROWS);
+    const activity: CohortRow[] = [];
+    const subscription: CohortRow[] = [];
+    for (const [key, users] of cohorts) {
+      activity.push({
+        key,
+        label: key,
+        size: users.length,
+        points: PAID_COHORT_DAYS.map((n) => {
+          let eligible = 0;
+          let returned = 0;
+          for (const u of users) {
+            if (now - u.firstPaidAt < n * DAY_MS) continue;
+            eligible += 1;
+            const days = activeDaysByUser.get(u.user_id);
+            if (days && returnedAfterFirstPaid(days, u.firstPaidAt, n, retentionMode, timeZone)) returned += 1;
+          }
+          return toPoint(n, returned, eligible);
+        }),
+      });
+      subscription.push({
+        key,
+        label: key,
+        size: users.length,
+        points: PAID_COHORT_MONTHS.map((n) => {
+          let eligible = 0;
+          let stillPaid = 0;
+          for (const u of users) {
+            const t = monthsAfter(u.firstPaidAt, n);
+            // A span that ended within the renewal window may still renew.
+            if (t > now - RENEWAL_WINDOW_DAYS * DAY_MS) continue;
+            eligible += 1;
+            if (u.spans.some((sp) => sp.start <= t && t <= sp.end)) stillPaid += 1;
+          }
+          return toPoint(n, stillPaid, eligible);
+        }),
+      });
+    }
+    return { activity, subscription };
+  }, [paidUsers, activeDaysByUser, retentionMode, timeZone]);
 
   const retentionKeyDays = useMemo(() => {
     const map = new Map<number, { ratePct: number; eligible: number; returned: number }>();
@@ -1469,7 +2157,7 @@ export default function PaidTab({
 
     // Shift every UTC timestamp into the selected timezone so that bucket
     // boundaries align with local calendar days (same trick as DashboardEntry).
-    const shift = (t: number) => t + tzOffsetMs;
+    const shift = (t: number) => toTzMs(t, timeZone);
 
     const shiftedSignups = signupTimes.map(shift);
     const shiftedOneoff = oneoffTimes.map(shift);
@@ -1481,14 +2169,15 @@ export default function PaidTab({
     if (allShifted.length === 0) return { series: [], maxPct: 10 };
 
     // Resolve visible window. Date picker values are YYYY-MM-DD local strings;
-    // parseTs returns UTC midnight, so we add tzOffsetMs to get local midnight.
+    // parseTs returns UTC midnight of that date, which in shifted time is
+    // exactly local midnight.
     const dataMin = Math.min(...allShifted);
     const shiftedNow = shift(now);
     const userStart = paidRateStartDate
-      ? (parseTs(paidRateStartDate) ?? dataMin - tzOffsetMs) + tzOffsetMs
+      ? (parseTs(paidRateStartDate) ?? dataMin)
       : dataMin;
     const userEnd = paidRateEndDate
-      ? (parseTs(paidRateEndDate) ?? now) + tzOffsetMs + DAY_MS - 1
+      ? (parseTs(paidRateEndDate) ?? shiftedNow) + DAY_MS - 1
       : shiftedNow;
     const rangeStart = Math.max(dataMin, userStart);
     const rangeEnd = Math.min(shiftedNow, userEnd);
@@ -1523,10 +2212,8 @@ export default function PaidTab({
     let totalPaid = 0;
     let totalStrict = 0;
     const rawSeries = buckets.map((b, i) => {
-      // bucketStart is already tz-shifted; strip the offset back out for toDayKey
-      // (toDayKey internally adds tzOffsetMs, so we pass the raw UTC value).
-      const bucketStart = minT + i * bucketMs - tzOffsetMs;
-      const label = toDayKey(bucketStart, tzOffsetMs);
+      // Bucket starts are already tz-shifted, so the ISO date is the local day.
+      const label = new Date(minT + i * bucketMs).toISOString().slice(0, 10);
       const total = b.oneoff + b.subscription;
       const base = b.signups > 0 ? b.signups : 1;
       const paidRatePct = (total / base) * 100;
@@ -1556,7 +2243,323 @@ export default function PaidTab({
     const series = rawSeries.map((r) => ({ ...r, avgPaidRatePct, avgStrictRatePct }));
     const maxPct = Math.max(10, Math.ceil(Math.max(globalMax, avgPaidRatePct) + 5));
     return { series, maxPct };
-  }, [stats, bucketed.paid, paidRateGranularity, paidRateStartDate, paidRateEndDate, tzOffsetMs]);
+  }, [stats, bucketed.paid, paidRateGranularity, paidRateStartDate, paidRateEndDate, timeZone]);
+
+  // ----- Revenue -------------------------------------------------------------
+  // Each paid record is priced from the API or the local price table. Cash
+  // revenue is booked on the record's started_at (selected tz); MRR at a
+  // bucket's end sums the monthly-normalised price of every recurring record
+  // active at that instant. Only one currency is summed at a time.
+  const pricedPaid = useMemo(
+    () => bucketed.paid.map((sub) => ({ sub, price: resolvePrice(sub, priceTable) })),
+    [bucketed.paid, priceTable],
+  );
+
+  const revenueCurrencies = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const { price } of pricedPaid) {
+      if (price) counts.set(price.currency, (counts.get(price.currency) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([c]) => c);
+  }, [pricedPaid]);
+
+  // '' in the view = the most common currency.
+  const revenueCurrency = revenueCurrencies.includes(view.revenueCurrency)
+    ? view.revenueCurrency
+    : revenueCurrencies[0] ?? '';
+
+  const revenue = useMemo(() => {
+    const now = Date.now();
+    const items: Array<{ uid: string; start: number; end: number; amount: number; monthly: number }> = [];
+    let unpriced = 0;
+    for (const { sub, price } of pricedPaid) {
+      if (!price) { unpriced += 1; continue; }
+      if (price.currency !== revenueCurrency) continue;
+      const start = parseTs(sub.started_at);
+      if (start == null) continue;
+      const end = Math.max(start, parseTs(sub.expires_at) ?? start);
+      items.push({ uid: sub.user_id, start, end, amount: price.amount, monthly: monthlyAmount(price) });
+    }
+    const mrrAt = (t: number) =>
+      items.reduce((sum, it) => (it.start <= t && t < it.end ? sum + it.monthly : sum), 0);
+
+    const summary = (() => {
+      const since = now - REVENUE_SUMMARY_DAYS * DAY_MS;
+      const recent = items.filter((it) => it.start > since && it.start <= now);
+      const total = recent.reduce((s, it) => s + it.amount, 0);
+      const payers = new Set(recent.map((it) => it.uid)).size;
+      return { mrr: mrrAt(now), recentRevenue: total, recentArppu: payers > 0 ? total / payers : 0, payers };
+    })();
+
+    if (items.length === 0) return { series: [] as RevenueBucket[], summary, unpriced };
+
+    const unit = revenueGranularity;
+    const todayKey = toDayKey(now, timeZone);
+    const lastKey = periodStartKey(todayKey, unit);
+    const firstKey =
+      unit === 'day'
+        ? addDays(todayKey, -(REVENUE_DAILY_DAYS - 1))
+        : periodStartKey(toDayKey(Math.min(...items.map((it) => it.start)), timeZone), 'month');
+    const buckets = new Map<string, { revenue: number; payers: Set<string> }>();
+    for (let k = firstKey; k <= lastKey; k = addPeriods(k, unit, 1)) {
+      buckets.set(k, { revenue: 0, payers: new Set() });
+    }
+    for (const it of items) {
+      const b = buckets.get(periodStartKey(toDayKey(it.start, timeZone), unit));
+      if (!b) continue;
+      b.revenue += it.amount;
+      b.payers.add(it.uid);
+    }
+    const series = Array.from(buckets.entries()).map(([key, b]) => {
+      const bucketEnd = Math.min(fromTzDateKey(addPeriods(key, unit, 1), timeZone) - 1, now);
+      return {
+        bucket: unit === 'month' ? key.slice(0, 7) : key,
+        revenue: b.revenue,
+        payers: b.payers.size,
+        arppu: b.payers.size > 0 ? b.revenue / b.payers.size : 0,
+        mrr: mrrAt(bucketEnd),
+      };
+    });
+    return { series, summary, unpriced };
+  }, [pricedPaid, revenueCurrency, revenueGranularity, timeZone]);
+
+  // ----- MRR movement --------------------------------------------------------
+  // Built on the merged paid spans. A user's MRR at instant t is the monthly
+  // price of the latest priced recurring record started by t inside the span
+  // covering t. A span still within RENEWAL_WINDOW_DAYS of its end (and not
+  // followed by another) is treated as live, so its churn only lands once the
+  // window has passed. Each month compares month-start vs month-end MRR:
+  //   - no span → span: new if it's the user's first span, else reactivation
+  //   - span → no span: churn
+  //   - span → a later span: churn of the old plus reactivation of the new
+  //   - same span: expansion / contraction by the price difference
+  // Renewal = MRR of records that continued an existing span in the month.
+  const mrrMovements = useMemo<MrrMovementMonth[]>(() => {
+    if (!revenueCurrency) return [];
+    const now = Date.now();
+    const windowMs = RENEWAL_WINDOW_DAYS * DAY_MS;
+    const priceOf = new Map(pricedPaid.map(({ sub, price }) => [sub, price]));
+    const monthlyOf = (sub: PaidSubscription): number | null => {
+      const price = priceOf.get(sub);
+      return price && price.currency === revenueCurrency && price.interval !== 'one_time' ? monthlyAmount(price) : null;
+    };
+
+    type UserSpans = { spans: PaidSpan[]; liveEnds: number[] };
+    const users: UserSpans[] = [];
+    for (const u of paidUsers) {
+      if (!u.spans.some((sp) => sp.subs.some((s) => monthlyOf(s) != null))) continue;
+      const last = u.spans.length - 1;
+      users.push({
+        spans: u.spans,
+        liveEnds: u.spans.map((sp, i) => (i === last && sp.end > now - windowMs ? Math.max(sp.end, now) : sp.end)),
+      });
+    }
+    if (users.length === 0) return [];
+
+    // [span index, MRR] at t; span index -1 = not paying.
+    const stateAt = (u: UserSpans, t: number): [number, number] => {
+      const i = u.spans.findIndex((sp, k) => sp.start <= t && t <= u.liveEnds[k]);
+      if (i < 0) return [-1, 0];
+      let mrr = 0;
+      for (const s of u.spans[i].subs) {
+        const start = parseTs(s.started_at);
+        const m = monthlyOf(s);
+        if (start != null && start <= t && m != null) mrr = m;
+      }
+      return mrr > 0 ? [i, mrr] : [-1, 0];
+    };
+
+    const firstStart = Math.min(...users.map((u) => u.spans[0].start));
+    const lastKey = periodStartKey(toDayKey(now, timeZone), 'month');
+    const out: MrrMovementMonth[] = [];
+    for (let key = periodStartKey(toDayKey(firstStart, timeZone), 'month'); key <= lastKey; key = addPeriods(key, 'month', 1)) {
+      const monthStart = fromTzDateKey(key, timeZone);
+      const monthEnd = Math.min(fromTzDateKey(addPeriods(key, 'month', 1), timeZone) - 1, now);
+      const m: MrrMovementMonth = {
+        month: key.slice(0, 7),
+        opening: 0, newMrr: 0, reactivation: 0, expansion: 0, contraction: 0, churn: 0, closing: 0,
+        renewal: 0,
+        maturing: false,
+      };
+      for (const u of users) {
+        const [pi, prev] = stateAt(u, monthStart - 1);
+        const [ci, cur] = stateAt(u, monthEnd);
+        m.opening += prev;
+        m.closing += cur;
+        if (pi >= 0 && pi === ci) {
+          if (cur > prev) m.expansion += cur - prev;
+          else m.contraction += cur - prev;
+        } else {
+          if (pi >= 0) m.churn -= prev;
+          if (ci >= 0) {
+            if (ci === 0) m.newMrr += cur;
+            else m.reactivation += cur;
+          }
+        }
+        if (ci >= 0 && u.liveEnds[ci] !== u.spans[ci].end) m.maturing = true;
+        for (const sp of u.spans) {
+          sp.subs.forEach((s, k) => {
+            const start = parseTs(s.started_at);
+            const mo = monthlyOf(s);
+            if (k > 0 && start != null && start >= monthStart && start <= monthEnd && mo != null) m.renewal += mo;
+          });
+        }
+      }
+      out.push(m);
+    }
+    return out;
+  }, [paidUsers, pricedPaid, revenueCurrency, timeZone]);
+
+  // '' in the view = the latest month.
+  const selectedMrrMonth =
+    mrrMovements.find((m) => m.month === view.mrrMonth) ?? mrrMovements[mrrMovements.length - 1] ?? null;
+
+  // ----- LTV by first-paid cohort -------------------------------------------
+  // Rows = calendar month of the first payment, columns = months since then.
+  // A cell is the cohort's cumulative paid days (or priced revenue) per user
+  // up to the end of that month, capped at now. The projection chain-links
+  // the observed curve: factor k = Σ cum[k+1] / Σ cum[k] over cohorts that
+  // completed month k+1, and each cohort's last complete value is carried
+  // forward through the remaining factors. Factors backed by fewer than
+  // minSampleSize users reuse the previous reliable one.
+  const ltvUsesRevenue = ltvMetric === 'revenue' && !!revenueCurrency;
+  const ltvCohorts = useMemo<LtvCohortRow[]>(() => {
+    const now = Date.now();
+    const priceOf = new Map(pricedPaid.map(({ sub, price }) => [sub, price]));
+    const valueBy = (u: PaidUserRow, t: number): number => {
+      let total = 0;
+      for (const sp of u.spans) {
+        if (!ltvUsesRevenue) {
+          total += Math.max(0, Math.min(sp.end, t) - sp.start) / DAY_MS;
+          continue;
+        }
+        for (const s of sp.subs) {
+          const price = priceOf.get(s);
+          const start = parseTs(s.started_at);
+          if (price && price.currency === revenueCurrency && start != null && start <= t) total += price.amount;
+        }
+      }
+      return total;
+    };
+
+    const byCohort = new Map<string, PaidUserRow[]>();
+    for (const u of paidUsers) {
+      const key = periodStartKey(toDayKey(u.firstPaidAt, timeZone), 'month');
+      const arr = byCohort.get(key) ?? [];
+      arr.push(u);
+      byCohort.set(key, arr);
+    }
+    const rows = Array.from(byCohort.entries())
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .slice(-COHORT_MAX_ROWS)
+      .map(([key, users]) => {
+        const cells: LtvCohortRow['cells'] = [];
+        for (let k = 0; k < LTV_MAX_MONTHS; k++) {
+          const start = fromTzDateKey(addPeriods(key, 'month', k), timeZone);
+          if (start > now) { cells.push(null); continue; }
+          const end = fromTzDateKey(addPeriods(key, 'month', k + 1), timeZone);
+          const t = Math.min(end - 1, now);
+          cells.push({ value: users.reduce((s, u) => s + valueBy(u, t), 0) / users.length, complete: end <= now });
+        }
+        return { cohort: key.slice(0, 7), size: users.length, cells, projected: null as number | null };
+      });
+
+    const factors: number[] = [];
+    let lastReliable = 1;
+    for (let k = 0; k < LTV_MAX_MONTHS - 1; k++) {
+      let num = 0, den = 0, n = 0;
+      for (const r of rows) {
+        const next = r.cells[k + 1];
+        const cur = r.cells[k];
+        if (!next?.complete || !cur) continue;
+        num += next.value * r.size;
+        den += cur.value * r.size;
+        n += r.size;
+      }
+      if (den > 0 && n >= minSampleSize) lastReliable = num / den;
+      factors.push(lastReliable);
+    }
+    for (const r of rows) {
+      let last = -1;
+      r.cells.forEach((c, k) => { if (c?.complete) last = k; });
+      if (last < 0) continue;
+      let v = r.cells[last]!.value;
+      for (let k = last; k < LTV_MAX_MONTHS - 1; k++) v *= factors[k];
+      r.projected = v;
+    }
+    return rows;
+  }, [paidUsers, pricedPaid, ltvUsesRevenue, revenueCurrency, timeZone, minSampleSize]);
+
+  // ----- Paid survival (Kaplan–Meier) ---------------------------------------
+  // Time runs from the first payment. Event = the first paid span ended and
+  // nothing renewed it within RENEWAL_WINDOW_DAYS (shorter gaps are already
+  // merged into the span). Users still inside their first span are censored
+  // today; spans that ended inside the window are censored at their end.
+  // Split groups smaller than minSampleSize, or past the top
+  // SURVIVAL_MAX_GROUPS, fold into "Other".
+  const survivalGroups = useMemo<SurvivalGroup[]>(() => {
+    const now = Date.now();
+    const windowMs = RENEWAL_WINDOW_DAYS * DAY_MS;
+    const groupOf = (u: PaidUserRow): string => {
+      const firstSub = u.spans[0].subs[0];
+      switch (survivalSplit) {
+        case 'none': return '全部付费用户';
+        case 'tier': return firstSub.tier || 'Unknown';
+        case 'firstReason':
+          return firstSub.billing_reason === 'one-off-payment'
+            ? 'One-off'
+            : firstSub.billing_reason === 'initial_subscription'
+              ? 'Subscription'
+              : firstSub.billing_reason || 'Unknown';
+        case 'country': return u.country?.trim() || 'Unknown';
+        case 'source': return extractStringLeaves(u.acquisitionSources)[0] ?? 'Unknown';
+      }
+    };
+
+    const subjects = paidUsers.map((u) => {
+      const first = u.spans[0];
+      return {
+        group: groupOf(u),
+        time: (Math.min(first.end, now) - u.firstPaidAt) / DAY_MS,
+        event: first.end <= now - windowMs,
+      };
+    });
+    const sizes = new Map<string, number>();
+    for (const s of subjects) sizes.set(s.group, (sizes.get(s.group) ?? 0) + 1);
+    const kept = new Set(
+      Array.from(sizes.entries())
+        .filter(([, n]) => survivalSplit === 'none' || n >= minSampleSize)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, SURVIVAL_MAX_GROUPS)
+        .map(([g]) => g),
+    );
+    const byGroup = new Map<string, typeof subjects>();
+    for (const s of subjects) {
+      const g = kept.has(s.group) ? s.group : 'Other';
+      const arr = byGroup.get(g) ?? [];
+      arr.push(s);
+      byGroup.set(g, arr);
+    }
+    return Array.from(byGroup.entries())
+      .sort((a, b) => (a[0] === 'Other' ? 1 : b[0] === 'Other' ? -1 : b[1].length - a[1].length))
+      .map(([label, group]) => {
+        const points = kaplanMeier(group, SURVIVAL_MAX_DAYS);
+        const events = group.filter((s) => s.event).length;
+        return {
+          label: label === 'Other' ? `Other (${group.length})` : label,
+          users: group.length,
+          events,
+          censored: group.length - events,
+          medianDays: points.find((p) => p.survivalPct <= 50)?.day ?? null,
+          points,
+        };
+      });
+  }, [paidUsers, survivalSplit, minSampleSize]);
+
+  const paidTiers = useMemo(
+    () => [...new Set(bucketed.paid.map((s) => s.tier).filter(Boolean))].sort(),
+    [bucketed.paid],
+  );
 
   // ----- Recent payments lists (one-off / renewal / initial subscription) -
   const recentPayments = useMemo(() => {
@@ -1592,7 +2595,6 @@ export default function PaidTab({
   }, [bucketed.paid, userBasicById]);
 
   // ----- Filtered + sorted users for table --------------------------------
-  const [userFilter, setUserFilter] = useState<'all' | 'active' | 'churned'>('all');
   const [showOverviewGeo, setShowOverviewGeo] = useState(false);
   const [showPaidGeoBreakdown, setShowPaidGeoBreakdown] = useState(false);
   const [showRenewalGeoBreakdown, setShowRenewalGeoBreakdown] = useState(false);
@@ -1809,13 +2811,13 @@ export default function PaidTab({
             title="邀请奖励用户"
             description="invite_code_grant + invitation_credit_grant"
             rows={inviteUsers}
-            tzOffsetMs={tzOffsetMs}
+            timeZone={timeZone}
           />
           <SidebarBucket
             title="手动添加用户"
             description="manual_addition (operations / scripts)"
             rows={manualUsers}
-            tzOffsetMs={tzOffsetMs}
+            timeZone={timeZone}
           />
         </div>
       </div>
@@ -1923,14 +2925,128 @@ export default function PaidTab({
                 严格口径
               </button>
             </div>
+            <MinSampleSizeInput value={minSampleSize} onChange={onMinSampleSizeChange} />
+          </div>
+        </div>
+        <div className="chart-container">
+          <PaidRateChart data={paidRateSeries.series} maxPct={paidRateSeries.maxPct} view={paidRateView} minSampleSize={minSampleSize} />
+        </div>
+      </div>
+
+      {/* Section 3: Revenue */}
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>收入与 MRR</h2>
+            <p className="section-subtitle">
+              金额优先取接口返回的 <code>amount</code>，否则按本地价格表（tier + <code>billing_reason</code>）估算。
+              收入记在 <code>started_at</code> 当天；MRR = 该时刻仍有效的月付/年付记录折算到每月的金额之和，
+              one-time 付费只计入收入。ARPPU = 周期收入 / 当期付费用户数。
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+            {revenueCurrencies.length > 1 && (
+              <label className="signup-range-label">
+                <span>币种</span>
+                <select value={revenueCurrency} onChange={(e) => setRevenueCurrency(e.target.value)}>
+                  {revenueCurrencies.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <div className="stat-segmented">
+              <button
+                type="button"
+                className={`stat-segmented-btn${revenueGranularity === 'day' ? ' active' : ''}`}
+                onClick={() => setRevenueGranularity('day')}
+              >
+                按日
+              </button>
+              <button
+                type="button"
+                className={`stat-segmented-btn${revenueGranularity === 'month' ? ' active' : ''}`}
+                onClick={() => setRevenueGranularity('month')}
+              >
+                按月
+              </button>
+            </div>
+            <button
+              type="button"
+              className={`stat-segmented-btn${showPriceTable ? ' active' : ''}`}
+              onClick={() => setShowPriceTable((v) => !v)}
+            >
+              价格表
+            </button>
+          </div>
+        </div>
+        {showPriceTable && (
+          <PriceTableEditor entries={priceTable} onChange={updatePriceTable} tiers={paidTiers} />
+        )}
+        <div className="stats-grid">
+          <StatCard
+            label="当前 MRR"
+            value={revenueCurrency ? formatMoney(revenue.summary.mrr, revenueCurrency) : '—'}
+            sub={revenueCurrency ? `ARR ≈ ${formatMoney(revenue.summary.mrr * 12, revenueCurrency)}` : undefined}
+          />
+          <StatCard
+            label={`近 ${REVENUE_SUMMARY_DAYS} 天收入`}
+            value={revenueCurrency ? formatMoney(revenue.summary.recentRevenue, revenueCurrency) : '—'}
+            sub={`${revenue.summary.payers} 位付费用户`}
+          />
+          <StatCard
+            label={`近 ${REVENUE_SUMMARY_DAYS} 天 ARPPU`}
+            value={revenueCurrency ? formatMoney(revenue.summary.recentArppu, revenueCurrency) : '—'}
+          />
+          <StatCard
+            label="未定价记录"
+            value={revenue.unpriced}
+            sub={revenue.unpriced > 0 ? '接口无金额且价格表未覆盖，不计入收入' : 'All paid records are priced'}
+          />
+        </div>
+        <div className="chart-container" style={{ marginTop: 16 }}>
+          <RevenueChart data={revenue.series} currency={revenueCurrency} />
+        </div>
+      </div>
+
+      {/* Section 4: MRR movement */}
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>MRR 变动</h2>
+            <p className="section-subtitle">
+              基于合并后的付费 span（间隔 ≤ {CONTINUITY_GAP_DAYS} 天视为连续），比较每月月初与月末的 MRR：
+              首个 span 开始 = 新增；间隔后的新 span = 回流；同一 span 内价格变化 = 扩张 / 收缩；
+              span 结束且 {RENEWAL_WINDOW_DAYS} 天内未续 = 流失。续费（span 内的后续记录）不改变 MRR，仅在提示中展示。
+              点击月份查看当月瀑布图。{revenueCurrency && <>币种：{revenueCurrency}。</>}
+            </p>
           </div>
         </div>
         <div className="chart-container">
-          <PaidRateChart data={paidRateSeries.series} maxPct={paidRateSeries.maxPct} view={paidRateView} />
+          <MrrMovementChart
+            data={mrrMovements}
+            currency={revenueCurrency}
+            selected={selectedMrrMonth?.month ?? ''}
+            onSelect={setMrrMonth}
+          />
         </div>
+        {selectedMrrMonth && (
+          <>
+            <h3 style={{ fontSize: 14, fontWeight: 500, margin: '20px 0 4px', color: '#333' }}>
+              {selectedMrrMonth.month} MRR 瀑布
+              {selectedMrrMonth.maturing && <span style={{ color: '#aaa', fontWeight: 400, marginLeft: 8 }}>⏳ 观察中</span>}
+            </h3>
+            <p className="section-subtitle" style={{ marginBottom: 8 }}>
+              当月续费 MRR：{formatMoney(selectedMrrMonth.renewal, revenueCurrency)}
+            </p>
+            <div className="chart-container">
+              <MrrWaterfallChart month={selectedMrrMonth} currency={revenueCurrency} />
+            </div>
+          </>
+        )}
       </div>
 
-      {/* Section 3: Recent payments (newest first, top 25) */}
+      {/* Section 5: Recent payments (newest first, top 25) */}
       <div className="section">
         <div className="section-header">
           <div className="section-title-group">
@@ -1951,24 +3067,24 @@ export default function PaidTab({
             title="One-off 付费"
             description="billing_reason = one-off-payment"
             rows={recentPayments.oneoff}
-            tzOffsetMs={tzOffsetMs}
+            timeZone={timeZone}
           />
           <RecentPaymentsList
             title="首次订阅"
             description="billing_reason = initial_subscription"
             rows={recentPayments.initial}
-            tzOffsetMs={tzOffsetMs}
+            timeZone={timeZone}
           />
           <RecentPaymentsList
             title="续订"
             description="billing_reason = renewal"
             rows={recentPayments.renewal}
-            tzOffsetMs={tzOffsetMs}
+            timeZone={timeZone}
           />
         </div>
       </div>
 
-      {/* Section 4: Monthly renewal rate */}
+      {/* Section 6: Monthly renewal rate */}
       <div className="section">
         <div className="section-header">
           <div className="section-title-group">
@@ -2016,34 +3132,134 @@ export default function PaidTab({
         )}
       </div>
 
-      {/* Section 5: Retention */}
+      {/* Section 7: Survival */}
       <div className="section">
         <div className="section-header">
           <div className="section-title-group">
-            <h2>付费用户留存率</h2>
+            <h2>付费生存曲线（Kaplan–Meier）</h2>
             <p className="section-subtitle">
-              {retentionMode === 'exact'
-                ? '精确日留存（Exact-day）：Day 0 = 首次付费日，Day N = 第 N 天当天是否有对话活动。'
-                : '滚动留存（Rolling）：Day 0 = 首次付费日，Day N = 第 N 天及之后是否有过任意对话活动。'}
+              首次付费后第 N 天仍在首个付费 span 内的概率。span 结束且 {RENEWAL_WINDOW_DAYS} 天内未续费视为流失；
+              仍在付费或刚结束（观察中）的用户按右删失处理。分组人数少于 {minSampleSize} 的归入 Other。
+            </p>
+          </div>
+          <div className="stat-segmented">
+            {SURVIVAL_SPLITS.map(({ key, label }) => (
+              <button
+                key={key}
+                type="button"
+                className={`stat-segmented-btn${survivalSplit === key ? ' active' : ''}`}
+                onClick={() => setSurvivalSplit(key)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="chart-container">
+          <SurvivalChart groups={survivalGroups} />
+        </div>
+        {survivalGroups.length > 0 && (
+          <table className="numeric-table" style={{ marginTop: 16 }}>
+            <thead>
+              <tr>
+                <th>分组</th>
+                <th>用户</th>
+                <th>流失</th>
+                <th>删失</th>
+                <th>中位生存</th>
+                {SURVIVAL_MILESTONES.map((d) => <th key={d}>D{d}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {survivalGroups.map((g, i) => (
+                <tr key={g.label}>
+                  <td>
+                    <span style={{ color: PIE_COLORS[i % PIE_COLORS.length], marginRight: 6 }}>●</span>
+                    {g.label}
+                  </td>
+                  <td>{g.users}</td>
+                  <td>{g.events}</td>
+                  <td>{g.censored}</td>
+                  <td>{g.medianDays != null ? `${g.medianDays}d` : '—'}</td>
+                  {SURVIVAL_MILESTONES.map((d) => {
+                    const pct = survivalAt(g, d);
+                    return <td key={d}>{pct != null ? `${pct.toFixed(1)}%` : '—'}</td>;
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Section 8: LTV by first-paid cohort */}
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>付费用户 LTV（按首次付费月）</h2>
+            <p className="section-subtitle">
+              每行为首次付费月份，M<i>k</i> = 首次付费后第 <i>k</i> 个自然月末每位用户的累计
+              {ltvUsesRevenue ? `收入（${revenueCurrency}）` : '付费天数'}，当月未结束的格子为半透明。
+              预测值按各 cohort 观测到的逐月增长系数（续费曲线）外推到 {LTV_MAX_MONTHS} 个月；
+              样本不足 {minSampleSize} 人的月份沿用上一个可靠系数。
             </p>
           </div>
           <div className="stat-segmented">
             <button
               type="button"
-              className={`stat-segmented-btn${retentionMode === 'exact' ? ' active' : ''}`}
-              onClick={() => setRetentionMode('exact')}
+              className={`stat-segmented-btn${!ltvUsesRevenue ? ' active' : ''}`}
+              onClick={() => setLtvMetric('days')}
             >
-              Exact-day
+              付费天数
             </button>
             <button
               type="button"
-              className={`stat-segmented-btn${retentionMode === 'rolling' ? ' active' : ''}`}
-              onClick={() => setRetentionMode('rolling')}
+              className={`stat-segmented-btn${ltvUsesRevenue ? ' active' : ''}`}
+              onClick={() => setLtvMetric('revenue')}
+              disabled={!revenueCurrency}
+              title={revenueCurrency ? undefined : 'No priced paid records yet — configure the price table'}
             >
-              Rolling
+              收入
             </button>
           </div>
         </div>
+        <LtvCohortTable
+          rows={ltvCohorts}
+          format={ltvUsesRevenue ? (v) => formatMoney(v, revenueCurrency) : (v) => `${v.toFixed(1)}d`}
+        />
+      </div>
+
+      {/* Section 9: Retention */}
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>付费用户留存率</h2>
+            <p className="section-subtitle">
+              {retentionMode === 'exact'
+                ? '精确日留存（Exact-day）：Day 0 = 首次付费日，Day N = 第 N 天当天是否有活动。'
+                : '滚动留存（Rolling）：Day 0 = 首次付费日，Day N = 第 N 天及之后是否有过任意活动。'}
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+            <div className="stat-segmented">
+              <button
+                type="button"
+                className={`stat-segmented-btn${retentionMode === 'exact' ? ' active' : ''}`}
+                onClick={() => setRetentionMode('exact')}
+              >
+                Exact-day
+              </button>
+              <button
+                type="button"
+                className={`stat-segmented-btn${retentionMode === 'rolling' ? ' active' : ''}`}
+                onClick={() => setRetentionMode('rolling')}
+              >
+                Rolling
+              </button>
+            </div>
+            <MinSampleSizeInput value={minSampleSize} onChange={onMinSampleSizeChange} />
+          </div>
+        </div>
         <div className="stats-grid">
           {retentionKeyDays.map((p) => (
             <StatCard
@@ -2055,11 +3271,22 @@ export default function PaidTab({
           ))}
         </div>
         <div className="chart-container" style={{ marginTop: 16 }}>
-          <RetentionLineChart data={retentionLine} />
+          <RetentionLineChart data={retentionLine} minSampleSize={minSampleSize} />
         </div>
+        <h3 style={{ fontSize: 14, fontWeight: 500, margin: '20px 0 4px', color: '#333' }}>按首次付费月 · 活跃留存</h3>
+        <p className="section-subtitle" style={{ marginBottom: 8 }}>
+          每行为首次付费月份，格子为该 cohort 的 {retentionMode === 'exact' ? 'Exact-day' : 'Rolling'} 留存率（%），
+          规则同上；尚无用户到达该天的格子留空。
+        </p>
+        <CohortHeatmap rows={paidCohortRetention.activity} columnLabel={(n) => `D${n}`} rowHeader="首次付费月" />
+        <h3 style={{ fontSize: 14, fontWeight: 500, margin: '20px 0 4px', color: '#333' }}>按首次付费月 · 订阅留存</h3>
+        <p className="section-subtitle" style={{ marginBottom: 8 }}>
+          首次付费后第 N 个月的同一时刻仍处于付费 span 中的用户占比（%）。
+        </p>
+        <CohortHeatmap rows={paidCohortRetention.subscription} columnLabel={(n) => `M${n}`} rowHeader="首次付费月" />
       </div>
 
-      {/* Section 6: Paid users list */}
+      {/* Section 10: Paid users list */}
       <div className="section">
         <div className="section-header">
           <div className="section-title-group">
@@ -2122,7 +3349,12 @@ export default function PaidTab({
             <GeoBreakdownPie data={paidGeoBreakdown.nationality} title="国籍分布" />
           </div>
         )}
-        <PaidUsersTable rows={sortedPaidUsers} tzOffsetMs={tzOffsetMs} />
+        <PaidUsersTable
+          rows={sortedPaidUsers}
+          dailyActivityByUser={dailyActivityByUser}
+          activityLabel={activityLabel}
+          timeZone={timeZone}
+        />
       </div>
     </>
   );
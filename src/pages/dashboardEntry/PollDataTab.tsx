@@ -1,27 +1,37 @@
 import { CountEntry } from './dashboardUtils';
 import { RankingSection } from './dashboardCharts';
+import type { SegmentDimension } from './segmentFilter';
 
 type PollData = {
   acquisitionSources: CountEntry[];
   loginCountries: CountEntry[];
 };
 
-export default function PollDataTab({ pollData }: { pollData: PollData }) {
+export default function PollDataTab({
+  pollData,
+  onFilter,
+}: {
+  pollData: PollData;
+  /** Clicking a bar adds that value to the dashboard-wide segment */
+  onFilter: (dim: SegmentDimension, value: string) => void;
+}) {
   return (
     <>
       <RankingSection
         title="User Acquisition Sources 获客来源"
-        subtitle="How many users mention each acquisition source (deduped per user)."
+        subtitle="How many users mention each acquisition source (deduped per user). Click a bar to filter the dashboard."
         note="Started collecting in May — data may not be available for all users."
         data={pollData.acquisitionSources}
+        onSelect={(v) => onFilter('acquisitionSource', v)}
         valueLabel="Users"
         pointLabel="user mentions"
       />
       <RankingSection
         title="Login Country 登录国家排名"
-        subtitle="Country resolved from user_poll_data.login_ip.country (one country per user)."
+        subtitle="Country resolved from user_poll_data.login_ip.country (one country per user). Click a bar to filter the dashboard."
         note="Started collecting in May — data may not be available for all users."
         data={pollData.loginCountries}
+        onSelect={(v) => onFilter('loginCountry', v)}
         valueLabel="Users"
         pointLabel="users"
       />
@@ -1,9 +1,75 @@
 import { useState } from 'react';
-import { RetentionPoint, MauMode, KEY_RETENTION_DAYS, formatRatio } from './dashboardUtils';
-import { CumulativeRetentionChart, SignupRangeFilter } from './dashboardCharts';
+import { RetentionPoint, RetentionMode, CohortRow, StickinessPoint, DelayBucket, MauMode, CompareStats, KEY_RETENTION_DAYS, RETENTION_BREAKDOWN_MIN_ELIGIBLE, RANKING_MAX_BARS, CATEGORICAL_COLORS, formatRatio, addDays, addPeriods, periodStartKey, todayTzKey } from './dashboardUtils';
+import { SegmentDimension, SEGMENT_DIMENSIONS } from './segmentFilter';
+import { CumulativeRetentionChart, RetentionSparkline, CohortHeatmap, StickinessChart, FirstConversationDelayChart, SignupRangeFilter, DeltaBadge, MinSampleSizeInput } from './dashboardCharts';
+
+type DateRange = { start: string; end: string };
+
+const MAX_RETENTION_OVERLAYS = 6;
+
+const overlayColor = (i: number) => CATEGORICAL_COLORS[i % CATEGORICAL_COLORS.length];
+
+const formatRangeLabel = (r: DateRange): string =>
+  r.start || r.end ? `${r.start || '…'} → ${r.end || '…'}` : 'All signups';
+
+// The last `count` complete weeks / months, oldest first.
+function lastFullPeriods(unit: 'week' | 'month', count: number, weekStartsOn: number, timeZone: string): DateRange[] {
+  const current = periodStartKey(todayTzKey(timeZone), unit, weekStartsOn);
+  return Array.from({ length: count }, (_, i) => {
+    const start = addPeriods(current, unit, i - count);
+    return { start, end: addDays(addPeriods(start, unit, 1), -1) };
+  });
+}
+
+function RetentionOverlayEditor({
+  overlays,
+  onChange,
+  minDate,
+  maxDate,
+  weekStartsOn,
+  timeZone,
+}: {
+  overlays: DateRange[];
+  onChange: (next: DateRange[]) => void;
+  minDate?: string;
+  maxDate?: string;
+  weekStartsOn: number;
+  timeZone: string;
+}) {
+  const update = (i: number, r: DateRange) => onChange(overlays.map((o, k) => (k === i ? r : o)));
+  return (
+    <div className="retention-overlays">
+      <span className="retention-overlays-label">Overlay cohorts</span>
+      {overlays.map((o, i) => (
+        <span key={i} className="retention-overlay">
+          <span className="compare-segment-swatch" style={{ background: overlayColor(i) }} />
+          <input type="date" value={o.start} min={minDate} max={o.end || maxDate} onChange={(e) => update(i, { ...o, start: e.target.value })} />
+          <span>to</span>
+          <input type="date" value={o.end} min={o.start || minDate} max={maxDate} onChange={(e) => update(i, { ...o, end: e.target.value })} />
+          <button type="button" title="Remove cohort" onClick={() => onChange(overlays.filter((_, k) => k !== i))}>×</button>
+        </span>
+      ))}
+      {overlays.length < MAX_RETENTION_OVERLAYS && (
+        <button type="button" className="signup-range-reset" onClick={() => onChange([...overlays, { start: '', end: '' }])}>
+          + Add range
+        </button>
+      )}
+      <button type="button" className="signup-range-reset" onClick={() => onChange(lastFullPeriods('week', 4, weekStartsOn, timeZone))}>
+        Last 4 weeks
+      </button>
+      <button type="button" className="signup-range-reset" onClick={() => onChange(lastFullPeriods('month', 3, weekStartsOn, timeZone))}>
+        Last 3 months
+      </button>
+      {overlays.length > 0 && (
+        <button type="button" className="signup-range-reset" onClick={() => onChange([])}>Clear</button>
+      )}
+    </div>
+  );
+}
 
 export default function RetentionTab({
   dauStats,
+  compareStats,
   dauDate,
   setDauDate,
   mauStats,
@@ -15,14 +81,37 @@ export default function RetentionTab({
   mauEndDate,
   setMauEndDate,
   dauMauRatio,
+  stickinessSeries,
+  stickinessRange,
+  setStickinessRange,
+  conversationBounds,
   cumulativeRetention,
   signupRange,
   setSignupRange,
   signupBounds,
   retentionMode,
   setRetentionMode,
+  retentionOverlays,
+  setRetentionOverlays,
+  retentionOverlayCurves,
+  retentionBreakdown,
+  retentionBreakdownDim,
+  setRetentionBreakdownDim,
+  minSampleSize,
+  setMinSampleSize,
+  weekStartsOn,
+  timeZone,
+  firstConversationDelay,
+  firstConversationRange,
+  setFirstConversationRange,
+  cohortRetention,
+  cohortPeriod,
+  setCohortPeriod,
+  cohortColumns,
+  setCohortColumns,
 }: {
   dauStats: { activeUsers: number; newSignups: number };
+  compareStats: CompareStats;
   dauDate: string;
   setDauDate: (d: string) => void;
   mauStats: { activeUsers: number; newSignups: number };
@@ -34,12 +123,36 @@ export default function RetentionTab({
   mauEndDate: string;
   setMauEndDate: (d: string) => void;
   dauMauRatio: number;
+  stickinessSeries: StickinessPoint[];
+  stickinessRange: { start: string; end: string };
+  setStickinessRange: (r: { start: string; end: string }) => void;
+  conversationBounds: { min: string; max: string } | null;
   cumulativeRetention: RetentionPoint[];
   signupRange: { start: string; end: string };
   setSignupRange: (r: { start: string; end: string }) => void;
   signupBounds: { min: string; max: string } | null;
-  retentionMode: 'exact' | 'rolling';
-  setRetentionMode: (m: 'exact' | 'rolling') => void;
+  retentionMode: RetentionMode;
+  setRetentionMode: (m: RetentionMode) => void;
+  retentionOverlays: DateRange[];
+  setRetentionOverlays: (r: DateRange[]) => void;
+  /** One curve per entry of retentionOverlays */
+  retentionOverlayCurves: RetentionPoint[][];
+  /** cumulativeRetention split by retentionBreakdownDim */
+  retentionBreakdown: CohortRow[];
+  retentionBreakdownDim: SegmentDimension;
+  setRetentionBreakdownDim: (d: SegmentDimension) => void;
+  minSampleSize: number;
+  setMinSampleSize: (n: number) => void;
+  weekStartsOn: number;
+  timeZone: string;
+  firstConversationDelay: { buckets: DelayBucket[]; total: number; never: number };
+  firstConversationRange: { start: string; end: string };
+  setFirstConversationRange: (r: { start: string; end: string }) => void;
+  cohortRetention: CohortRow[];
+  cohortPeriod: 'week' | 'month';
+  setCohortPeriod: (p: 'week' | 'month') => void;
+  cohortColumns: 'day' | 'week';
+  setCohortColumns: (c: 'day' | 'week') => void;
 }) {
   const retentionAt = (n: number): RetentionPoint =>
     cumulativeRetention[n - 1] ?? { day: n, ratePct: 0, returned: 0, eligible: 0, hasData: false, mature: false };
@@ -53,8 +166,9 @@ export default function RetentionTab({
             <input type="date" value={dauDate} onChange={(e) => setDauDate(e.target.value)} />
           </div>
           <div className="stat-value">{dauStats.activeUsers}</div>
+          {compareStats.dau && <DeltaBadge delta={compareStats.dau} />}
           <div className="stat-sub">
-            Unique users with conversations on {dauDate}
+            Unique active users on {dauDate}
             <br />
             {dauStats.newSignups} new signup{dauStats.newSignups === 1 ? '' : 's'} on this day
           </div>
@@ -72,6 +186,7 @@ export default function RetentionTab({
             {mauMode === 'endDate' && <input type="date" value={mauEndDate} onChange={(e) => setMauEndDate(e.target.value)} />}
           </div>
           <div className="stat-value">{mauStats.activeUsers}</div>
+          {compareStats.mau && <DeltaBadge delta={compareStats.mau} />}
           <div className="stat-sub">
             {mauWindow.label} · {mauWindow.start} → {mauWindow.end}
             <br />
@@ -86,6 +201,33 @@ export default function RetentionTab({
         </div>
       </div>
 
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Stickiness Trend</h2>
+            <p className="section-subtitle">
+              Daily DAU, WAU (trailing 7 days) and MAU ({mauMode === 'month' ? 'calendar month to date' : 'trailing 30 days'},
+              following the MAU card mode) with DAU : MAU and WAU : MAU on the right axis.
+            </p>
+          </div>
+          <SignupRangeFilter
+            fromLabel="From"
+            start={stickinessRange.start}
+            end={stickinessRange.end}
+            minDate={conversationBounds?.min}
+            maxDate={conversationBounds?.max}
+            onChange={setStickinessRange}
+            onReset={() => {
+              const end = todayTzKey(timeZone);
+              setStickinessRange({ start: addDays(end, -89), end });
+            }}
+          />
+        </div>
+        <div className="chart-container">
+          <StickinessChart data={stickinessSeries} />
+        </div>
+      </div>
+
       <div className="stats-grid">
         {KEY_RETENTION_DAYS.map((day) => {
           const p = retentionAt(day);
@@ -113,7 +255,9 @@ export default function RetentionTab({
               {retentionMode === 'exact'
                 ? '精确日留存（Exact-day）：第 N 天当天是否有活动。'
                 : '滚动留存（Rolling）：第 N 天及之后是否有过任意活动。'}
-              {' '}Eligible = signed up at least N full days ago.
+              {' '}Eligible = signed up at least N full days ago. The band is the 95% Wilson interval; days with
+              fewer than {minSampleSize} eligible users are dashed. Overlay other signup cohorts to compare them
+              against the selected range.
             </p>
           </div>
           <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
@@ -129,10 +273,159 @@ export default function RetentionTab({
               onChange={setSignupRange}
               onReset={() => setSignupRange({ start: '', end: '' })}
             />
+            <MinSampleSizeInput value={minSampleSize} onChange={setMinSampleSize} />
+          </div>
+        </div>
+        <RetentionOverlayEditor
+          overlays={retentionOverlays}
+          onChange={setRetentionOverlays}
+          minDate={signupBounds?.min}
+          maxDate={signupBounds?.max}
+          weekStartsOn={weekStartsOn}
+          timeZone={timeZone}
+        />
+        <div className="chart-container">
+          <CumulativeRetentionChart
+            data={cumulativeRetention}
+            label={formatRangeLabel(signupRange)}
+            overlays={retentionOverlayCurves.map((data, i) => ({
+              label: formatRangeLabel(retentionOverlays[i] ?? { start: '', end: '' }),
+              color: overlayColor(i),
+              data,
+            }))}
+            minSampleSize={minSampleSize}
+          />
+        </div>
+      </div>
+
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Retention by Attribute 分属性留存</h2>
+            <p className="section-subtitle">
+              The curve above split by one user attribute (first value for multi-valued ones), same signup range
+              and mode. Categories with fewer than {RETENTION_BREAKDOWN_MIN_ELIGIBLE} D1-eligible users, or past the
+              top {RANKING_MAX_BARS}, are grouped into &quot;Other&quot;.
+            </p>
+          </div>
+          <div className="stat-segmented">
+            {SEGMENT_DIMENSIONS.map(({ key, label }) => (
+              <button
+                key={key}
+                type="button"
+                className={`stat-segmented-btn${retentionBreakdownDim === key ? ' active' : ''}`}
+                onClick={() => setRetentionBreakdownDim(key)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {retentionBreakdown.length === 0 ? (
+          <div className="empty-state">No signups in this range</div>
+        ) : (
+          <>
+            <div className="table-container">
+              <table className="numeric-table">
+                <thead>
+                  <tr>
+                    <th>{SEGMENT_DIMENSIONS.find((d) => d.key === retentionBreakdownDim)?.label}</th>
+                    <th>Signups</th>
+                    {KEY_RETENTION_DAYS.map((d) => <th key={d}>D{d}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {retentionBreakdown.map((row) => (
+                    <tr key={row.key}>
+                      <td>{row.label}</td>
+                      <td>{row.size.toLocaleString()}</td>
+                      {KEY_RETENTION_DAYS.map((d) => {
+                        const p = row.points[d - 1];
+                        const show = p?.mature && p.hasData;
+                        return (
+                          <td key={d} title={show ? `${p.returned} / ${p.eligible} eligible users` : undefined}>
+                            {show ? `${p.ratePct.toFixed(1)}%` : '—'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="small-multiples">
+              {retentionBreakdown.map((row, i) => (
+                <div className="small-multiple" key={row.key}>
+                  <div className="small-multiple-title" title={row.label}>
+                    {row.label} <span>· {row.size.toLocaleString()}</span>
+                  </div>
+                  <RetentionSparkline data={row.points} color={overlayColor(i)} />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Time to First Conversation 首次对话耗时</h2>
+            <p className="section-subtitle">
+              Delay between signup and a user&apos;s first conversation, with the cumulative share of signups
+              on the right axis. &quot;Never&quot; = signed up but no conversation yet (onboarding drop-off).
+            </p>
+            <p className="section-meta">
+              <strong>{firstConversationDelay.total.toLocaleString()}</strong> signups ·{' '}
+              <strong>
+                {firstConversationDelay.total > 0
+                  ? `${((firstConversationDelay.never / firstConversationDelay.total) * 100).toFixed(1)}%`
+                  : '—'}
+              </strong>{' '}
+              never had a conversation
+            </p>
+          </div>
+          <SignupRangeFilter
+            start={firstConversationRange.start}
+            end={firstConversationRange.end}
+            minDate={signupBounds?.min}
+            maxDate={signupBounds?.max}
+            onChange={setFirstConversationRange}
+            onReset={() => setFirstConversationRange({ start: '', end: '' })}
+          />
+        </div>
+        <div className="chart-container">
+          <FirstConversationDelayChart data={firstConversationDelay.buckets} />
+        </div>
+      </div>
+
+      <div className="section">
+        <div className="section-header">
+          <div className="section-title-group">
+            <h2>Cohort Retention 分组留存</h2>
+            <p className="section-subtitle">
+              Each row is a signup {cohortPeriod}; each cell is the {retentionMode === 'exact' ? 'exact' : 'rolling'}{' '}
+              return rate {cohortColumns === 'day' ? 'on day N' : 'in week N'} after signup.
+              Grey cells: no cohort user has reached that {cohortColumns} yet.
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+            <div className="stat-segmented">
+              <button type="button" className={`stat-segmented-btn${cohortPeriod === 'week' ? ' active' : ''}`} onClick={() => setCohortPeriod('week')}>Weekly cohorts</button>
+              <button type="button" className={`stat-segmented-btn${cohortPeriod === 'month' ? ' active' : ''}`} onClick={() => setCohortPeriod('month')}>Monthly cohorts</button>
+            </div>
+            <div className="stat-segmented">
+              <button type="button" className={`stat-segmented-btn${cohortColumns === 'day' ? ' active' : ''}`} onClick={() => setCohortColumns('day')}>D1…D30</button>
+              <button type="button" className={`stat-segmented-btn${cohortColumns === 'week' ? ' active' : ''}`} onClick={() => setCohortColumns('week')}>W1…W12</button>
+            </div>
           </div>
         </div>
         <div className="chart-container">
-          <CumulativeRetentionChart data={cumulativeRetention} />
+          <CohortHeatmap
+            rows={cohortRetention}
+            columnLabel={(n) => `${cohortColumns === 'day' ? 'D' : 'W'}${n}`}
+            rowHeader={cohortPeriod === 'week' ? 'Signup week' : 'Signup month'}
+          />
         </div>
       </div>
     </>
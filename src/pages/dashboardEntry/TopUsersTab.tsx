@@ -1,11 +1,11 @@
 import React, { useState } from 'react';
-import { CountEntry, RankingMode, todayTzKey, addDays } from './dashboardUtils';
-import { RankingBarChart, SignupRangeFilter } from './dashboardCharts';
+import { CountEntry, RankingMode, PowerUserPoint, todayTzKey, addDays } from './dashboardUtils';
+import { RankingBarChart, PowerUserCurveChart, CalendarHeatmap, SignupRangeFilter } from './dashboardCharts';
 
 export type TopUserRow = {
   user_id: string;
   label: string;
-  conversations: number;
+  events: number;
   identity: string | null;
   country: string | null;
   nationality: string | null;
@@ -18,7 +18,7 @@ export type TopUserRow = {
 export type TopUsersData = {
   data: CountEntry[];
   rows: TopUserRow[];
-  totalConversations: number;
+  totalEvents: number;
   activeUsers: number;
 };
 
@@ -29,8 +29,10 @@ export default function TopUsersTab({
   topUsersRange,
   setTopUsersRange,
   conversationBounds,
-  tzOffsetMs,
+  timeZone,
   role = 'admin',
+  activityLabel = 'Conversations',
+  dailyActivityByUser,
 }: {
   topUsers: TopUsersData;
   topK: number;
@@ -38,12 +40,18 @@ export default function TopUsersTab({
   topUsersRange: { start: string; end: string };
   setTopUsersRange: (r: { start: string; end: string }) => void;
   conversationBounds: { min: string; max: string } | null;
-  tzOffsetMs: number;
+  timeZone: string;
   role?: string;
+  /** "Conversations" when only send_message counts as activity, else "Events" */
+  activityLabel?: string;
+  /** user_id -> local day -> activity count (same events as the ranking), for the expanded-row calendar */
+  dailyActivityByUser?: Map<string, Map<string, number>>;
 }) {
   const [topUsersMode, setTopUsersMode] = useState<RankingMode>('count');
   const [topUserExpanded, setTopUserExpanded] = useState<string | null>(null);
 
+  const calendarEnd = todayTzKey(timeZone);
+
   return (
     <div className="section">
       <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 16 }}>
@@ -64,15 +72,15 @@ export default function TopUsersTab({
 
       <div className="section-header">
         <div className="section-title-group">
-          <h2>Top Users by Conversations 用户对话数排名</h2>
+          <h2>Top Users by {activityLabel} 用户{activityLabel === 'Conversations' ? '对话数' : '活跃事件'}排名</h2>
           <p className="section-subtitle">
-            Most active users (by conversation count) inside the selected window.
+            Most active users (by {activityLabel === 'Conversations' ? 'conversation' : 'event'} count) inside the selected window.
             Email shown when known, otherwise a truncated user_id.
           </p>
           {role === 'admin' && (
             <p className="section-meta">
-              <strong>{topUsers.totalConversations.toLocaleString()}</strong>{' '}
-              conversations · <strong>{topUsers.activeUsers}</strong> active
+              <strong>{topUsers.totalEvents.toLocaleString()}</strong>{' '}
+              {activityLabel.toLowerCase()} · <strong>{topUsers.activeUsers}</strong> active
               user{topUsers.activeUsers === 1 ? '' : 's'} ·{' '}
               <strong>{topUsersRange.start}</strong> → <strong>{topUsersRange.end}</strong>
             </p>
@@ -86,7 +94,7 @@ export default function TopUsersTab({
             maxDate={conversationBounds?.max}
             onChange={setTopUsersRange}
             onReset={() => {
-              const end = conversationBounds?.max ?? todayTzKey(tzOffsetMs);
+              const end = conversationBounds?.max ?? todayTzKey(timeZone);
               setTopUsersRange({ start: addDays(end, -29), end });
             }}
           />
@@ -101,7 +109,7 @@ export default function TopUsersTab({
 
       {role === 'admin' && (
         <div className="chart-container">
-          <RankingBarChart data={topUsers.data} mode={topUsersMode} valueLabel="Conversations" />
+          <RankingBarChart data={topUsers.data} mode={topUsersMode} valueLabel={activityLabel} />
         </div>
       )}
 
@@ -120,7 +128,7 @@ export default function TopUsersTab({
                   <th>User</th>
                   <th>Identity</th>
                   <th>Country</th>
-                  {role === 'admin' && <th>Convs</th>}
+                  {role === 'admin' && <th>{activityLabel === 'Conversations' ? 'Convs' : 'Events'}</th>}
                   <th title="Initial used function">Init Fn</th>
                   <th title="Top used functions (top 3)">Top Fns</th>
                   <th title="Acquisition source">Source</th>
@@ -129,6 +137,8 @@ export default function TopUsersTab({
               <tbody>
                 {topUsers.rows.map((row) => {
                   const isExpanded = topUserExpanded === row.user_id;
+                  const userDays = role === 'admin' ? dailyActivityByUser?.get(row.user_id) : undefined;
+                  const expandable = row.loginIp != null || userDays != null;
                   const top3 = Array.isArray(row.mostUsedFunctions)
                     ? [...row.mostUsedFunctions].sort((a, b) => b.count - a.count).slice(0, 3)
                     : [];
@@ -144,10 +154,10 @@ export default function TopUsersTab({
                     <React.Fragment key={row.user_id}>
                       <tr
                         onClick={() => setTopUserExpanded(isExpanded ? null : row.user_id)}
-                        style={{ cursor: row.loginIp != null ? 'pointer' : 'default' }}
+                        style={{ cursor: expandable ? 'pointer' : 'default' }}
                       >
                         <td style={{ textAlign: 'center', color: '#999' }}>
-                          {row.loginIp != null ? (isExpanded ? '▾' : '▸') : ''}
+                          {expandable ? (isExpanded ? '▾' : '▸') : ''}
                         </td>
                         <td style={{ fontFamily: 'monospace', fontSize: 12, maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={row.label}>
                           {row.label}
@@ -159,7 +169,7 @@ export default function TopUsersTab({
                             <span style={{ color: '#999', fontSize: 11, marginLeft: 4 }}>{row.nationality}</span>
                           )}
                         </td>
-                        {role === 'admin' && <td>{row.conversations.toLocaleString()}</td>}
+                        {role === 'admin' && <td>{row.events.toLocaleString()}</td>}
                         <td style={{ fontSize: 11, color: '#555', maxWidth: 120, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={row.initialUsedFunction ?? undefined}>
                           {row.initialUsedFunction ?? '—'}
                         </td>
@@ -170,22 +180,34 @@ export default function TopUsersTab({
                           {sourceStr}
                         </td>
                       </tr>
-                      {isExpanded && row.loginIp != null && (
+                      {isExpanded && expandable && (
                         <tr>
                           <td />
                           <td colSpan={7}>
                             <div style={{ padding: '8px 12px', background: '#fafafa', borderRadius: 6, fontSize: 12 }}>
-                              <div style={{ display: 'flex', alignItems: 'flex-start', gap: 4 }}>
-                                <span style={{ color: '#888', whiteSpace: 'nowrap' }}>Login IP:</span>
-                                <span style={{
-                                  display: 'inline-block', maxWidth: 420, maxHeight: 80,
-                                  overflowY: 'auto', overflowX: 'auto', verticalAlign: 'top',
-                                  background: '#f5f5f5', padding: '2px 6px', borderRadius: 3,
-                                  fontFamily: 'monospace', fontSize: 11, whiteSpace: 'pre-wrap', wordBreak: 'break-all',
-                                }}>
-                                  {typeof row.loginIp === 'string' ? row.loginIp : JSON.stringify(row.loginIp, null, 2)}
-                                </span>
-                              </div>
+                              {userDays && (
+                                <div style={{ marginBottom: row.loginIp != null ? 10 : 0 }}>
+                                  <CalendarHeatmap
+                                    counts={userDays}
+                                    start={addDays(calendarEnd, -364)}
+                                    end={calendarEnd}
+                                    unitLabel={activityLabel.toLowerCase()}
+                                  />
+                                </div>
+                              )}
+                              {row.loginIp != null && (
+                                <div style={{ display: 'flex', alignItems: 'flex-start', gap: 4 }}>
+                                  <span style={{ color: '#888', whiteSpace: 'nowrap' }}>Login IP:</span>
+                                  <span style={{
+                                    display: 'inline-block', maxWidth: 420, maxHeight: 80,
+                                    overflowY: 'auto', overflowX: 'auto', verticalAlign: 'top',
+                                    background: '#f5f5f5', padding: '2px 6px', borderRadius: 3,
+                                    fontFamily: 'monospace', fontSize: 11, whiteSpace: 'pre-wrap', wordBreak: 'break-all',
+                                  }}>
+                                    {typeof row.loginIp === 'string' ? row.loginIp : JSON.stringify(row.loginIp, null, 2)}
+                                  </span>
+                                </div>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -201,3 +223,78 @@ export default function TopUsersTab({
     </div>
   );
 }
+
+// L7 / L30 power user curve; rendered below the Top Users section.
+export function PowerUserSection({
+  powerUserCurve,
+  powerUserWindow,
+  setPowerUserWindow,
+  powerUserEnd,
+  setPowerUserEnd,
+  powerUserCompareEnd,
+  setPowerUserCompareEnd,
+  conversationBounds,
+  role = 'admin',
+}: {
+  powerUserCurve: PowerUserPoint[];
+  powerUserWindow: 7 | 30;
+  setPowerUserWindow: (w: 7 | 30) => void;
+  powerUserEnd: string;
+  setPowerUserEnd: (d: string) => void;
+  powerUserCompareEnd: string;
+  setPowerUserCompareEnd: (d: string) => void;
+  conversationBounds: { min: string; max: string } | null;
+  role?: string;
+}) {
+  const [powerUserMode, setPowerUserMode] = useState<RankingMode>(role === 'admin' ? 'count' : 'percent');
+  const windowLabel = (end: string) => `L${powerUserWindow} · ${addDays(end, -(powerUserWindow - 1))} → ${end}`;
+
+  return (
+    <div className="section">
+      <div className="section-header">
+        <div className="section-title-group">
+          <h2>Power User Curve 活跃天数分布</h2>
+          <p className="section-subtitle">
+            Users grouped by how many distinct days they were active inside an L{powerUserWindow} window.
+            A curve leaning right means more users come back most days.
+          </p>
+        </div>
+        <div className="top-users-controls">
+          <div className="stat-segmented">
+            <button type="button" className={`stat-segmented-btn ${powerUserWindow === 7 ? 'active' : ''}`} onClick={() => setPowerUserWindow(7)}>L7</button>
+            <button type="button" className={`stat-segmented-btn ${powerUserWindow === 30 ? 'active' : ''}`} onClick={() => setPowerUserWindow(30)}>L30</button>
+          </div>
+          <label className="signup-range-label">
+            <span>Ending</span>
+            <input type="date" value={powerUserEnd} max={conversationBounds?.max} onChange={(e) => { if (e.target.value) setPowerUserEnd(e.target.value); }} />
+          </label>
+          <label className="signup-range-label">
+            <input
+              type="checkbox"
+              checked={powerUserCompareEnd !== ''}
+              onChange={(e) => setPowerUserCompareEnd(e.target.checked ? addDays(powerUserEnd, -powerUserWindow) : '')}
+            />
+            <span>Compare to window ending</span>
+            {powerUserCompareEnd !== '' && (
+              <input type="date" value={powerUserCompareEnd} max={conversationBounds?.max} onChange={(e) => setPowerUserCompareEnd(e.target.value)} />
+            )}
+          </label>
+          {role === 'admin' && (
+            <div className="stat-segmented">
+              <button type="button" className={`stat-segmented-btn ${powerUserMode === 'count' ? 'active' : ''}`} onClick={() => setPowerUserMode('count')}>Count</button>
+              <button type="button" className={`stat-segmented-btn ${powerUserMode === 'percent' ? 'active' : ''}`} onClick={() => setPowerUserMode('percent')}>Percentage</button>
+            </div>
+          )}
+        </div>
+      </div>
+      <div className="chart-container">
+        <PowerUserCurveChart
+          data={powerUserCurve}
+          mode={powerUserMode}
+          label={windowLabel(powerUserEnd)}
+          compareLabel={powerUserCompareEnd ? windowLabel(powerUserCompareEnd) : undefined}
+        />
+      </div>
+    </div>
+  );
+}
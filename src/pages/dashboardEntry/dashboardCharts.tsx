@@ -1,10 +1,12 @@
 // Shared chart and UI components used across multiple tab files.
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
   BarChart,
   Bar,
+  ComposedChart,
+  Area,
   Legend,
   XAxis,
   YAxis,
@@ -13,18 +15,57 @@ import {
   ResponsiveContainer,
   LabelList,
   ReferenceArea,
+  ReferenceLine,
+  Cell,
 } from 'recharts';
 import { ResponsivePie } from '@nivo/pie';
 import {
   TimeRange,
+  ChartGranularity,
+  CompareMode,
+  StatDelta,
+  COMPARE_MODE_LABELS,
+  ALL_TIME_ZONES,
+  BROWSER_TIME_ZONE,
+  formatGmtLabel,
+  isValidTimeZone,
+  tzOffsetAt,
+  MAX_CHART_BUCKETS,
+  resolveChartWindow,
+  estimateBucketCount,
+  todayTzKey,
   RankingMode,
   RetentionPoint,
+  CohortRow,
+  LifecyclePoint,
+  StickinessPoint,
+  PowerUserPoint,
+  DelayBucket,
+  WEEKDAY_LABELS,
+  periodStartKey,
+  addDays,
   CountEntry,
+  isOtherBucket,
+  DEFAULT_MIN_SAMPLE_SIZE,
+  MAX_MIN_SAMPLE_SIZE,
+  wilsonIntervalPct,
   BreakdownGroup,
   CATEGORICAL_COLORS,
   MAX_RETENTION_DAY,
   KEY_RETENTION_DAYS,
+  MeaningfulEventType,
+  MEANINGFUL_EVENT_TYPES,
+  MEANINGFUL_EVENT_LABELS,
 } from './dashboardUtils';
+import {
+  SegmentFilter,
+  SegmentDimension,
+  PaidStatus,
+  SEGMENT_DIMENSIONS,
+  PAID_STATUS_LABELS,
+  EMPTY_SEGMENT,
+} from './segmentFilter';
+import { SavedViewsStore, loadSavedViews, storeSavedViews, newSavedViewId } from './savedViews';
 
 // ---------------------------------------------------------------------------
 // Time range selector
@@ -38,19 +79,525 @@ export function TimeRangeSelector({
 }) {
   return (
     <div className="time-range-selector">
-      {(['12h', '1d', '7d', '30d'] as TimeRange[]).map((range) => (
+      {(['12h', '1d', '7d', '30d', '90d', '1y', 'custom'] as TimeRange[]).map((range) => (
         <button
           key={range}
           className={`time-range-btn ${value === range ? 'active' : ''}`}
           onClick={() => onChange(range)}
         >
-          {range}
+          {range === 'custom' ? 'Custom' : range}
         </button>
       ))}
     </div>
   );
 }
 
+const GRANULARITY_LABELS: Record<ChartGranularity, string> = {
+  auto: 'Auto',
+  hour: 'Hour',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+// Range presets / custom dates, bucket granularity and week start shared by
+// the General tab trend charts.
+export function ChartRangeControls({
+  timeRange,
+  onTimeRangeChange,
+  customRange,
+  onCustomRangeChange,
+  granularity,
+  onGranularityChange,
+  weekStartsOn,
+  onWeekStartsOnChange,
+  timeZone,
+  minDate,
+  maxDate,
+}: {
+  timeRange: TimeRange;
+  onTimeRangeChange: (r: TimeRange) => void;
+  customRange: { start: string; end: string };
+  onCustomRangeChange: (r: { start: string; end: string }) => void;
+  granularity: ChartGranularity;
+  onGranularityChange: (g: ChartGranularity) => void;
+  weekStartsOn: number;
+  onWeekStartsOnChange: (d: number) => void;
+  timeZone: string;
+  minDate?: string;
+  maxDate?: string;
+}) {
+  const { startMs, endMs } = resolveChartWindow(timeRange, customRange, timeZone);
+  const spanMs = Math.max(0, endMs - startMs);
+  return (
+    <div className="chart-range-controls">
+      <TimeRangeSelector value={timeRange} onChange={onTimeRangeChange} />
+      {timeRange === 'custom' && (
+        <SignupRangeFilter
+          start={customRange.start}
+          end={customRange.end}
+          minDate={minDate}
+          maxDate={maxDate}
+          onChange={(next) => { if (next.start && next.end) onCustomRangeChange(next); }}
+          onReset={() => {
+            const end = todayTzKey(timeZone);
+            onCustomRangeChange({ start: addDays(end, -89), end });
+          }}
+          fromLabel="From"
+        />
+      )}
+      <div className="stat-segmented">
+        {(Object.keys(GRANULARITY_LABELS) as ChartGranularity[]).map((g) => {
+          const tooFine = g !== 'auto' && estimateBucketCount(spanMs, g) > MAX_CHART_BUCKETS;
+          return (
+            <button
+              key={g}
+              type="button"
+              className={`stat-segmented-btn ${granularity === g ? 'active' : ''}`}
+              disabled={tooFine}
+              title={tooFine ? 'Too many buckets for this range' : undefined}
+              onClick={() => onGranularityChange(g)}
+            >
+              {GRANULARITY_LABELS[g]}
+            </button>
+          );
+        })}
+      </div>
+      <label className="signup-range-label">
+        <span>Week starts</span>
+        <select value={weekStartsOn} onChange={(e) => onWeekStartsOnChange(Number(e.target.value))}>
+          <option value={1}>Monday</option>
+          <option value={0}>Sunday</option>
+        </select>
+      </label>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Timezone picker (header): type to search any IANA zone
+// ---------------------------------------------------------------------------
+export function TimezonePicker({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (timeZone: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  const [prevValue, setPrevValue] = useState(value);
+  if (value !== prevValue) {
+    setPrevValue(value);
+    setDraft(value);
+  }
+  // Current GMT offset of every zone, shown next to each suggestion.
+  const options = useMemo(() => {
+    const now = Date.now();
+    return ALL_TIME_ZONES.map((zone) => ({ zone, label: formatGmtLabel(tzOffsetAt(zone, now)) }));
+  }, []);
+  const commit = (next: string) => {
+    if (isValidTimeZone(next)) onChange(next);
+    else setDraft(value);
+  };
+  return (
+    <label className="timezone-selector">
+      <span>Timezone</span>
+      <input
+        type="text"
+        list="timezone-picker-options"
+        value={draft}
+        placeholder={BROWSER_TIME_ZONE}
+        spellCheck={false}
+        onFocus={(e) => e.target.select()}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          // Picking from the list commits immediately; free typing commits on blur / Enter.
+          if (ALL_TIME_ZONES.includes(e.target.value)) onChange(e.target.value);
+        }}
+        onBlur={() => commit(draft)}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(draft); }}
+      />
+      <span className="timezone-selector-offset">{formatGmtLabel(tzOffsetAt(value, Date.now()))}</span>
+      <datalist id="timezone-picker-options">
+        {options.map((o) => <option key={o.zone} value={o.zone}>{o.label}</option>)}
+      </datalist>
+    </label>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Period-over-period comparison (header selector + card delta)
+// ---------------------------------------------------------------------------
+export function CompareModeSelector({
+  mode,
+  onModeChange,
+  customStart,
+  onCustomStartChange,
+}: {
+  mode: CompareMode;
+  onModeChange: (m: CompareMode) => void;
+  customStart: string;
+  onCustomStartChange: (d: string) => void;
+}) {
+  return (
+    <label className="timezone-selector">
+      <span>Compare</span>
+      <select value={mode} onChange={(e) => onModeChange(e.target.value as CompareMode)}>
+        {(Object.keys(COMPARE_MODE_LABELS) as CompareMode[]).map((m) => (
+          <option key={m} value={m}>{COMPARE_MODE_LABELS[m]}</option>
+        ))}
+      </select>
+      {mode === 'custom' && (
+        <input
+          type="date"
+          value={customStart}
+          title="Comparison period starts on"
+          onChange={(e) => { if (e.target.value) onCustomStartChange(e.target.value); }}
+        />
+      )}
+    </label>
+  );
+}
+
+export function DeltaBadge({ delta }: { delta: StatDelta }) {
+  const diff = delta.current - delta.previous;
+  const pct = delta.previous > 0 ? (diff / delta.previous) * 100 : null;
+  const direction = diff > 0 ? 'up' : diff < 0 ? 'down' : 'flat';
+  const arrow = diff > 0 ? '▲' : diff < 0 ? '▼' : '–';
+  return (
+    <div className={`stat-delta ${direction}`} title={`${delta.label}: ${delta.previous.toLocaleString()}`}>
+      {arrow} {diff > 0 ? '+' : ''}{diff.toLocaleString()}
+      {pct != null && ` (${pct > 0 ? '+' : ''}${pct.toFixed(1)}%)`}
+      <span className="stat-delta-label">{delta.label}</span>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Saved views (header): named snapshots of the current URL state
+// ---------------------------------------------------------------------------
+export function SavedViewsMenu({
+  role,
+  currentUrl,
+  onApply,
+}: {
+  role: string;
+  currentUrl: string;
+  onApply: (url: string) => void;
+}) {
+  const [store, setStore] = useState<SavedViewsStore>(() => loadSavedViews(role));
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+
+  const update = (next: SavedViewsStore) => {
+    setStore(next);
+    storeSavedViews(role, next);
+  };
+  const save = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const existing = store.views.find((v) => v.name === name);
+    const views = existing
+      ? store.views.map((v) => (v.id === existing.id ? { ...v, url: currentUrl } : v))
+      : [...store.views, { id: newSavedViewId(), name, url: currentUrl }];
+    update({ ...store, views });
+    setNewName('');
+  };
+  const commitRename = () => {
+    const name = renameDraft.trim();
+    if (renamingId && name) {
+      update({ ...store, views: store.views.map((v) => (v.id === renamingId ? { ...v, name } : v)) });
+    }
+    setRenamingId(null);
+  };
+  const remove = (id: string) => {
+    update({
+      views: store.views.filter((v) => v.id !== id),
+      defaultId: store.defaultId === id ? null : store.defaultId,
+    });
+  };
+
+  const active = store.views.find((v) => v.url === currentUrl);
+  return (
+    <details className="activity-type-selector saved-views">
+      <summary>
+        <span className="activity-type-selector-label">View:</span> {active?.name ?? 'Unsaved'}
+      </summary>
+      <div className="activity-type-selector-menu saved-views-menu">
+        {store.views.length === 0 && (
+          <p className="activity-type-selector-note">No saved views yet. Name the current filters and tab to save them.</p>
+        )}
+        {store.views.map((v) => {
+          const isDefault = store.defaultId === v.id;
+          return (
+            <div key={v.id} className={`saved-views-row ${v.id === active?.id ? 'active' : ''}`}>
+              {renamingId === v.id ? (
+                <input
+                  type="text"
+                  autoFocus
+                  value={renameDraft}
+                  onChange={(e) => setRenameDraft(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                />
+              ) : (
+                <button type="button" className="saved-views-name" onClick={() => onApply(v.url)} title={v.url}>
+                  {v.name}
+                </button>
+              )}
+              <button
+                type="button"
+                className={`saved-views-action ${isDefault ? 'on' : ''}`}
+                title={isDefault ? 'Default view · click to unset' : 'Open this view by default'}
+                onClick={() => update({ ...store, defaultId: isDefault ? null : v.id })}
+              >
+                {isDefault ? '★' : '☆'}
+              </button>
+              <button
+                type="button"
+                className="saved-views-action"
+                title="Rename"
+                onClick={() => { setRenamingId(v.id); setRenameDraft(v.name); }}
+              >
+                ✎
+              </button>
+              <button type="button" className="saved-views-action" title="Delete" onClick={() => remove(v.id)}>
+                ×
+              </button>
+            </div>
+          );
+        })}
+        <div className="saved-views-save">
+          <input
+            type="text"
+            placeholder="Name this view"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          />
+          <button type="button" className="signup-range-reset" disabled={!newName.trim()} onClick={save}>
+            Save
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// "What counts as active" multi-select (header)
+// ---------------------------------------------------------------------------
+export function ActivityTypeSelector({
+  value,
+  onChange,
+  hasEventsFeed,
+}: {
+  value: MeaningfulEventType[];
+  onChange: (next: MeaningfulEventType[]) => void;
+  /** False on older backends: only conversations are available */
+  hasEventsFeed: boolean;
+}) {
+  const summary = !hasEventsFeed
+    ? MEANINGFUL_EVENT_LABELS.send_message
+    : value.length === MEANINGFUL_EVENT_TYPES.length
+      ? 'All events'
+      : value.map((t) => MEANINGFUL_EVENT_LABELS[t]).join(', ');
+  const toggle = (type: MeaningfulEventType) => {
+    const next = value.includes(type) ? value.filter((t) => t !== type) : [...value, type];
+    // Keep at least one type selected, and keep the canonical order.
+    if (next.length > 0) onChange(MEANINGFUL_EVENT_TYPES.filter((t) => next.includes(t)));
+  };
+  return (
+    <details className="activity-type-selector">
+      <summary>
+        <span className="activity-type-selector-label">Active =</span> {summary}
+      </summary>
+      <div className="activity-type-selector-menu">
+        {!hasEventsFeed && (
+          <p className="activity-type-selector-note">
+            The backend doesn't send an events feed yet, so only conversations count.
+          </p>
+        )}
+        {MEANINGFUL_EVENT_TYPES.map((type) => (
+          <label key={type}>
+            <input
+              type="checkbox"
+              checked={hasEventsFeed ? value.includes(type) : type === 'send_message'}
+              disabled={!hasEventsFeed}
+              onChange={() => toggle(type)}
+            />
+            {MEANINGFUL_EVENT_LABELS[type]}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Global segment filter bar (below the header)
+// ---------------------------------------------------------------------------
+const SEGMENT_MENU_MAX_OPTIONS = 200;
+
+export function SegmentValuePicker({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: CountEntry[];
+  value: string[];
+  onChange: (next: string[]) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const q = query.trim().toLowerCase();
+  const shown = (q ? options.filter((o) => o.name.toLowerCase().includes(q)) : options).slice(0, SEGMENT_MENU_MAX_OPTIONS);
+  const toggle = (name: string) =>
+    onChange(value.includes(name) ? value.filter((v) => v !== name) : [...value, name]);
+  return (
+    <details className={`activity-type-selector segment-filter-picker ${value.length > 0 ? 'active' : ''}`}>
+      <summary>
+        <span className="activity-type-selector-label">{label}:</span>{' '}
+        {value.length === 0 ? 'Any' : value.length === 1 ? value[0] : `${value.length} selected`}
+      </summary>
+      <div className="activity-type-selector-menu segment-filter-menu">
+        {options.length > 10 && (
+          <input type="text" placeholder="Search…" value={query} onChange={(e) => setQuery(e.target.value)} />
+        )}
+        {options.length === 0 && <p className="activity-type-selector-note">No data for this field.</p>}
+        {value
+          .filter((v) => !options.some((o) => o.name === v))
+          .map((v) => (
+            <label key={`missing-${v}`}>
+              <input type="checkbox" checked onChange={() => toggle(v)} />
+              {v} <span className="segment-filter-count">0</span>
+            </label>
+          ))}
+        {shown.map((o) => (
+          <label key={o.name}>
+            <input type="checkbox" checked={value.includes(o.name)} onChange={() => toggle(o.name)} />
+            {o.name} <span className="segment-filter-count">{o.value.toLocaleString()}</span>
+          </label>
+        ))}
+        {value.length > 0 && (
+          <button type="button" className="signup-range-reset" onClick={() => onChange([])}>
+            Clear
+          </button>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export function SegmentFilterBar({
+  value,
+  onChange,
+  options,
+  signupBounds,
+  showPaidStatus,
+  matchedUsers,
+  totalUsers,
+}: {
+  value: SegmentFilter;
+  onChange: (next: SegmentFilter) => void;
+  options: Record<SegmentDimension, CountEntry[]>;
+  signupBounds: { min: string; max: string } | null;
+  /** Paid status needs the paid subscriptions feed (admin only) */
+  showPaidStatus: boolean;
+  /** Users in the segment, or null when no filter is active */
+  matchedUsers: number | null;
+  totalUsers: number;
+}) {
+  return (
+    <div className="segment-filter-bar">
+      <span className="segment-filter-title">Segment</span>
+      {SEGMENT_DIMENSIONS.map(({ key, label }) => (
+        <SegmentValuePicker
+          key={key}
+          label={label}
+          options={options[key]}
+          value={value[key]}
+          onChange={(next) => onChange({ ...value, [key]: next })}
+        />
+      ))}
+      <SignupRangeFilter
+        start={value.signup.start}
+        end={value.signup.end}
+        minDate={signupBounds?.min}
+        maxDate={signupBounds?.max}
+        onChange={(signup) => onChange({ ...value, signup })}
+        onReset={() => onChange({ ...value, signup: { start: '', end: '' } })}
+      />
+      {showPaidStatus && (
+        <label className="timezone-selector">
+          <select value={value.paid} onChange={(e) => onChange({ ...value, paid: e.target.value as PaidStatus })}>
+            {(Object.keys(PAID_STATUS_LABELS) as PaidStatus[]).map((p) => (
+              <option key={p} value={p}>{PAID_STATUS_LABELS[p]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {matchedUsers !== null && (
+        <>
+          <span className="segment-filter-summary">
+            <strong>{matchedUsers.toLocaleString()}</strong> of {totalUsers.toLocaleString()} users
+          </span>
+          <button type="button" className="signup-range-reset" onClick={() => onChange(EMPTY_SEGMENT)}>
+            Clear all
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// One removable chip per active segment value (picked in the bar above or by
+// clicking a chart element).
+export function SegmentFilterChips({
+  value,
+  onChange,
+}: {
+  value: SegmentFilter;
+  onChange: (next: SegmentFilter) => void;
+}) {
+  const chips: { key: string; label: string; remove: () => SegmentFilter }[] = [];
+  for (const { key, label } of SEGMENT_DIMENSIONS) {
+    for (const v of value[key]) {
+      chips.push({
+        key: `${key}:${v}`,
+        label: `${label}: ${v}`,
+        remove: () => ({ ...value, [key]: value[key].filter((x) => x !== v) }),
+      });
+    }
+  }
+  if (value.signup.start || value.signup.end) {
+    chips.push({
+      key: 'signup',
+      label: `Signed up: ${value.signup.start || '…'} → ${value.signup.end || '…'}`,
+      remove: () => ({ ...value, signup: { start: '', end: '' } }),
+    });
+  }
+  if (value.paid !== 'any') {
+    chips.push({ key: 'paid', label: PAID_STATUS_LABELS[value.paid], remove: () => ({ ...value, paid: 'any' }) });
+  }
+  if (chips.length === 0) return null;
+  return (
+    <div className="segment-filter-chips">
+      {chips.map((chip) => (
+        <span key={chip.key} className="segment-filter-chip">
+          {chip.label}
+          <button type="button" title="Remove filter" onClick={() => onChange(chip.remove())}>×</button>
+        </span>
+      ))}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Signup range filter (date pickers)
 // ---------------------------------------------------------------------------
@@ -61,6 +608,7 @@ export function SignupRangeFilter({
   maxDate,
   onChange,
   onReset,
+  fromLabel = 'Signup from',
 }: {
   start: string;
   end: string;
@@ -68,11 +616,12 @@ export function SignupRangeFilter({
   maxDate?: string;
   onChange: (next: { start: string; end: string }) => void;
   onReset: () => void;
+  fromLabel?: string;
 }) {
   return (
     <div className="signup-range-filter">
       <label className="signup-range-label">
-        <span>Signup from</span>
+        <span>{fromLabel}</span>
         <input
           type="date"
           value={start}
@@ -104,9 +653,14 @@ export function SignupRangeFilter({
 export function StatLineChart({
   data,
   dataKey,
+  compareKey,
+  compareLabel = 'Comparison',
 }: {
   data: Array<Record<string, string | number>>;
   dataKey: string;
+  /** Optional dashed overlay (e.g. the previous period), aligned by bucket */
+  compareKey?: string;
+  compareLabel?: string;
 }) {
   return (
     <ResponsiveContainer width="100%" height={300}>
@@ -119,6 +673,10 @@ export function StatLineChart({
           labelStyle={{ color: '#333333', marginBottom: '4px' }}
         />
         <Line type="monotone" dataKey={dataKey} stroke="#333333" strokeWidth={2} dot={{ fill: '#333333', r: 3 }} activeDot={{ r: 5 }} />
+        {compareKey && (
+          <Line type="monotone" dataKey={compareKey} name={compareLabel} stroke="#999999" strokeWidth={2}
+            strokeDasharray="5 5" dot={false} activeDot={{ r: 4 }} />
+        )}
       </LineChart>
     </ResponsiveContainer>
   );
@@ -164,21 +722,274 @@ export function StackedBarChart({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Multi-series charts (one line / bar per series, e.g. per compared segment)
+// ---------------------------------------------------------------------------
+export type ChartSeries = { key: string; label: string; color: string };
+
+export function MultiLineChart({
+  data,
+  series,
+  valueFormat = (v) => String(v),
+}: {
+  data: Array<Record<string, string | number>>;
+  series: ChartSeries[];
+  valueFormat?: (v: number) => string;
+}) {
+  if (data.length === 0) return <div className="empty-state">No data in this range</div>;
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <LineChart data={data} margin={{ top: 16, right: 16, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="time" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
+        <YAxis stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} tickFormatter={valueFormat} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', fontSize: '12px' }}
+          labelStyle={{ color: '#333333', marginBottom: '4px' }}
+          formatter={(value: number, name: string) => [valueFormat(value), name]}
+        />
+        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }} />
+        {series.map((s) => (
+          <Line key={s.key} type="monotone" dataKey={s.key} name={s.label} stroke={s.color} strokeWidth={2} dot={false} isAnimationActive={false} />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+export function GroupedBarChart({
+  data,
+  series,
+  valueFormat = (v) => String(v),
+  height = 300,
+}: {
+  data: Array<Record<string, string | number>>;
+  series: ChartSeries[];
+  valueFormat?: (v: number) => string;
+  height?: number;
+}) {
+  if (data.length === 0) return <div className="empty-state">No data available</div>;
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <BarChart data={data} margin={{ top: 24, right: 16, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="time" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
+        <YAxis stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} tickFormatter={valueFormat} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', fontSize: '12px' }}
+          labelStyle={{ color: '#333333', marginBottom: '4px' }}
+          cursor={{ fill: 'rgba(0, 0, 0, 0.04)' }}
+          formatter={(value: number, name: string) => [valueFormat(value), name]}
+        />
+        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }} iconType="square" />
+        {series.map((s) => (
+          <Bar key={s.key} dataKey={s.key} name={s.label} fill={s.color} isAnimationActive={false}>
+            <LabelList dataKey={s.key} position="top" fill="#333333" fontSize={11}
+              formatter={(v) => (typeof v === 'number' ? valueFormat(v) : '')} />
+          </Bar>
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle bar chart (new / retained / resurrected above zero, churned below)
+// ---------------------------------------------------------------------------
+const LIFECYCLE_SERIES: Array<{ key: keyof LifecyclePoint; label: string; color: string }> = [
+  { key: 'newUsers', label: 'New', color: '#4285f4' },
+  { key: 'retained', label: 'Retained', color: '#34a853' },
+  { key: 'resurrected', label: 'Resurrected', color: '#fb8c00' },
+  { key: 'churned', label: 'Churned', color: '#ea4335' },
+];
+
+export function LifecycleBarChart({ data }: { data: LifecyclePoint[] }) {
+  if (data.length === 0) return <div className="empty-state">No activity data yet</div>;
+  return (
+    <ResponsiveContainer width="100%" height={340}>
+      <BarChart data={data} stackOffset="sign" margin={{ top: 16, right: 16, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="time" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
+        <YAxis stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} allowDecimals={false} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', fontSize: '12px' }}
+          labelStyle={{ color: '#333333', marginBottom: '4px' }}
+          cursor={{ fill: 'rgba(0, 0, 0, 0.04)' }}
+          formatter={(value: number, name: string) => [Math.abs(value), name]}
+        />
+        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }} iconType="square" />
+        <ReferenceLine y={0} stroke="#999999" />
+        {LIFECYCLE_SERIES.map((s) => (
+          <Bar key={s.key} dataKey={s.key} stackId="lifecycle" fill={s.color} name={s.label} isAnimationActive={false} />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Stickiness trend (DAU / WAU / MAU counts + ratios on a second axis)
+// ---------------------------------------------------------------------------
+export function StickinessChart({ data }: { data: StickinessPoint[] }) {
+  if (data.length === 0) return <div className="empty-state">No activity in this range</div>;
+  return (
+    <ResponsiveContainer width="100%" height={340}>
+      <LineChart data={data} margin={{ top: 16, right: 8, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="time" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
+        <YAxis yAxisId="count" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} allowDecimals={false} />
+        <YAxis yAxisId="ratio" orientation="right" domain={[0, 1]} stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }}
+          tickFormatter={(v: number) => v.toFixed(1)} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', fontSize: '12px' }}
+          labelStyle={{ color: '#333333', marginBottom: '4px' }}
+          formatter={(value: number, name: string) => [name.includes(':') ? value.toFixed(3) : value, name]}
+        />
+        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }} />
+        <Line yAxisId="count" type="monotone" dataKey="dau" name="DAU" stroke="#333333" strokeWidth={2} dot={false} isAnimationActive={false} />
+        <Line yAxisId="count" type="monotone" dataKey="wau" name="WAU" stroke="#4285f4" strokeWidth={2} dot={false} isAnimationActive={false} />
+        <Line yAxisId="count" type="monotone" dataKey="mau" name="MAU" stroke="#34a853" strokeWidth={2} dot={false} isAnimationActive={false} />
+        <Line yAxisId="ratio" type="monotone" dataKey="dauMau" name="DAU : MAU" stroke="#fb8c00" strokeWidth={1.5} strokeDasharray="6 3" dot={false} isAnimationActive={false} />
+        <Line yAxisId="ratio" type="monotone" dataKey="wauMau" name="WAU : MAU" stroke="#a142f4" strokeWidth={1.5} strokeDasharray="6 3" dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Power user curve (users by number of active days in the window)
+// ---------------------------------------------------------------------------
+export function PowerUserCurveChart({
+  data,
+  mode = 'count',
+  label,
+  compareLabel,
+}: {
+  data: PowerUserPoint[];
+  mode?: RankingMode;
+  label: string;
+  /** When set, a second bar per bucket is drawn for the comparison window */
+  compareLabel?: string;
+}) {
+  const total = data.reduce((s, p) => s + p.users, 0);
+  const compareTotal = data.reduce((s, p) => s + p.compareUsers, 0);
+  if (total === 0 && compareTotal === 0) return <div className="empty-state">No active users in this window</div>;
+  const isPercent = mode === 'percent';
+  const chartData = data.map((p) => ({
+    days: `${p.days}d`,
+    users: isPercent ? (total > 0 ? (p.users / total) * 100 : 0) : p.users,
+    compareUsers: isPercent ? (compareTotal > 0 ? (p.compareUsers / compareTotal) * 100 : 0) : p.compareUsers,
+  }));
+  const formatValue = (v: number) => isPercent ? `${v.toFixed(1)}%` : String(v);
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <BarChart data={chartData} margin={{ top: 16, right: 16, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="days" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
+        <YAxis stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} allowDecimals={isPercent}
+          tickFormatter={(v: number) => isPercent ? `${v.toFixed(0)}%` : String(v)} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', fontSize: '12px' }}
+          labelStyle={{ color: '#333333', marginBottom: '4px' }}
+          labelFormatter={(l) => `Active on ${String(l).replace('d', '')} day(s)`}
+          formatter={(value: number, name: string) => [formatValue(value), name]}
+          cursor={{ fill: 'rgba(0, 0, 0, 0.04)' }}
+        />
+        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }} iconType="square" />
+        <Bar dataKey="users" name={label} fill="#4285f4" isAnimationActive={false} />
+        {compareLabel && <Bar dataKey="compareUsers" name={compareLabel} fill="#bdbdbd" isAnimationActive={false} />}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Signup → first conversation delay (histogram + cumulative share)
+// ---------------------------------------------------------------------------
+export function FirstConversationDelayChart({ data }: { data: DelayBucket[] }) {
+  if (data.length === 0) return <div className="empty-state">No signups in this range</div>;
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <ComposedChart data={data} margin={{ top: 24, right: 8, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+        <XAxis dataKey="label" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
+        <YAxis yAxisId="users" stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} allowDecimals={false} />
+        <YAxis yAxisId="cdf" orientation="right" domain={[0, 100]} stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }}
+          tickFormatter={(v: number) => `${v}%`} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', fontSize: '12px' }}
+          labelStyle={{ color: '#333333', marginBottom: '4px' }}
+          cursor={{ fill: 'rgba(0, 0, 0, 0.04)' }}
+          formatter={(value: number, name: string, item: { payload?: DelayBucket }) => {
+            if (name === 'Cumulative') return [`${value.toFixed(1)}%`, name];
+            const p = item?.payload;
+            return [`${value} (${(p?.pct ?? 0).toFixed(1)}%)`, name];
+          }}
+        />
+        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }} />
+        <Bar yAxisId="users" dataKey="users" name="Users" isAnimationActive={false}>
+          {data.map((d) => <Cell key={d.label} fill={d.cumulativePct == null ? '#bdbdbd' : '#4285f4'} />)}
+        </Bar>
+        <Line yAxisId="cdf" type="monotone" dataKey="cumulativePct" name="Cumulative" stroke="#333333" strokeWidth={2}
+          dot={{ r: 3, fill: '#333333' }} connectNulls={false} isAnimationActive={false} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Retention chart
 // ---------------------------------------------------------------------------
-function RetentionTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: RetentionPoint }> }) {
+function RetentionTooltip({
+  active,
+  payload,
+  series,
+  minSampleSize = DEFAULT_MIN_SAMPLE_SIZE,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: RetentionPoint & Record<string, unknown> }>;
+  series?: RetentionCurveSeries[];
+  minSampleSize?: number;
+}) {
   if (!active || !payload || payload.length === 0) return null;
   const p = payload[0].payload;
+  const boxStyle = { backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', padding: '10px 12px', fontSize: '12px', color: '#333333', boxShadow: '0 2px 6px rgba(0, 0, 0, 0.04)' };
+  if (series) {
+    return (
+      <div style={boxStyle}>
+        <div style={{ fontWeight: 500, marginBottom: 4 }}>Day {p.day}</div>
+        {series.map((s, i) => {
+          const point = p[`series${i}Point`] as RetentionPoint | undefined;
+          return (
+            <div key={i} style={{ display: 'flex', gap: 8, alignItems: 'baseline', lineHeight: 1.6 }}>
+              <span style={{ color: s.color }}>●</span>
+              <span>{s.label}</span>
+              <span style={{ marginLeft: 'auto', color: '#666666' }}>
+                {point?.mature && point.hasData
+                  ? <>
+                      <strong style={{ color: '#333333' }}>{point.ratePct.toFixed(1)}%</strong> · {point.returned}/{point.eligible}
+                      {point.eligible < minSampleSize && <span style={{ color: '#fb8c00' }} title="Small sample"> ⚠</span>}
+                    </>
+                  : '—'}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+  const ci = p.mature && p.hasData ? wilsonIntervalPct(p.returned, p.eligible) : null;
   return (
-    <div style={{ backgroundColor: '#ffffff', border: '1px solid #e5e5e5', borderRadius: '8px', padding: '10px 12px', fontSize: '12px', color: '#333333', boxShadow: '0 2px 6px rgba(0, 0, 0, 0.04)' }}>
+    <div style={boxStyle}>
       <div style={{ fontWeight: 500, marginBottom: 4 }}>Day {p.day}</div>
       {!p.mature ? (
         <div style={{ color: '#999999' }}>Data not available · no cohort user has reached this day yet</div>
       ) : p.hasData ? (
         <>
           <div>Return rate: <strong>{p.ratePct.toFixed(1)}%</strong></div>
+          {ci && <div style={{ color: '#666666', marginTop: 2 }}>95% CI {ci[0].toFixed(1)}% – {ci[1].toFixed(1)}%</div>}
           <div style={{ color: '#666666', marginTop: 2 }}>{p.returned} / {p.eligible} eligible users active on this day</div>
+          {p.eligible < minSampleSize && <SmallSampleWarning n={p.eligible} min={minSampleSize} />}
         </>
       ) : (
         <div style={{ color: '#999999' }}>No eligible users yet</div>
@@ -187,7 +998,49 @@ function RetentionTooltip({ active, payload }: { active?: boolean; payload?: Arr
   );
 }
 
-export function CumulativeRetentionChart({ data }: { data: RetentionPoint[] }) {
+export function SmallSampleWarning({ n, min }: { n: number; min: number }) {
+  return (
+    <div style={{ color: '#fb8c00', marginTop: 4 }}>
+      ⚠ Small sample: {n} &lt; {min}, treat this rate with caution
+    </div>
+  );
+}
+
+// Number input for the "small sample" threshold shared by the rate charts.
+export function MinSampleSizeInput({ value, onChange }: { value: number; onChange: (n: number) => void }) {
+  return (
+    <label className="signup-range-label" title="Rates with a smaller denominator are faded and flagged">
+      <span>Min n</span>
+      <input
+        type="number"
+        min={1}
+        max={MAX_MIN_SAMPLE_SIZE}
+        value={value}
+        onChange={(e) => {
+          const n = parseInt(e.target.value, 10);
+          if (Number.isFinite(n) && n >= 1) onChange(Math.min(n, MAX_MIN_SAMPLE_SIZE));
+        }}
+      />
+    </label>
+  );
+}
+
+export type RetentionCurveSeries = { label: string; color: string; data: RetentionPoint[] };
+
+export function CumulativeRetentionChart({
+  data,
+  label = 'Selected range',
+  overlays = [],
+  minSampleSize = DEFAULT_MIN_SAMPLE_SIZE,
+}: {
+  data: RetentionPoint[];
+  /** Legend name of the main curve; only shown when there are overlays */
+  label?: string;
+  /** Extra cohorts drawn on top, each in its own colour */
+  overlays?: RetentionCurveSeries[];
+  /** Days with fewer eligible users are drawn dashed and flagged */
+  minSampleSize?: number;
+}) {
   const keyDaySet = new Set<number>(KEY_RETENTION_DAYS);
   const isKeyIndex = (index: number) =>
     index >= 0 && index < data.length && keyDaySet.has(data[index].day) && data[index].mature;
@@ -197,12 +1050,32 @@ export function CumulativeRetentionChart({ data }: { data: RetentionPoint[] }) {
     if (!p.mature) { firstImmatureDay = p.day; break; }
   }
 
-  const lineData = data.map((p) => ({ ...p, matureRatePct: p.mature ? p.ratePct : null }));
+  // Small-sample days go on a separate faded line; the neighbouring
+  // well-sampled point is repeated there so the two lines join up.
+  const isLow = (p: RetentionPoint | undefined) => !!p && p.mature && p.hasData && p.eligible < minSampleSize;
+  const series: RetentionCurveSeries[] | undefined =
+    overlays.length > 0 ? [{ label, color: '#333333', data }, ...overlays] : undefined;
+  const lineData = data.map((p, i) => {
+    const low = isLow(p);
+    const row: RetentionPoint & Record<string, unknown> = {
+      ...p,
+      matureRatePct: p.mature && !low ? p.ratePct : null,
+      lowSampleRatePct: p.mature && (low || isLow(data[i - 1]) || isLow(data[i + 1])) ? p.ratePct : null,
+      ci: p.mature && p.hasData ? wilsonIntervalPct(p.returned, p.eligible) : null,
+    };
+    series?.forEach((s, k) => {
+      const point = s.data[i];
+      row[`series${k}Point`] = point;
+      if (k > 0) row[`series${k}`] = point?.mature && point.hasData ? point.ratePct : null;
+    });
+    return row;
+  });
 
   const renderDot = (props: { cx?: number; cy?: number; index?: number; payload?: RetentionPoint }) => {
     const { cx, cy, index, payload } = props;
     if (cx == null || cy == null || index == null) return <g />;
     if (!payload || !payload.mature) return <g />;
+    if (isLow(payload)) return <circle key={`dot-${index}`} cx={cx} cy={cy} r={2.5} fill="#ffffff" stroke="#bbbbbb" />;
     if (isKeyIndex(index)) return <circle key={`dot-${index}`} cx={cx} cy={cy} r={5.5} fill="#1a1a1a" stroke="#ffffff" strokeWidth={2} />;
     return <circle key={`dot-${index}`} cx={cx} cy={cy} r={2.5} fill="#bbbbbb" />;
   };
@@ -220,27 +1093,233 @@ export function CumulativeRetentionChart({ data }: { data: RetentionPoint[] }) {
 
   return (
     <ResponsiveContainer width="100%" height={340}>
-      <LineChart data={lineData} margin={{ top: 28, right: 24, bottom: 8, left: 0 }}>
+      <ComposedChart data={lineData} margin={{ top: 28, right: 24, bottom: 8, left: 0 }}>
         <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
         <XAxis dataKey="day" type="number" domain={[1, MAX_RETENTION_DAY]} ticks={[1, 7, 14, 21, 30]}
           tickFormatter={(v: number) => `D${v}`} stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
         <YAxis domain={[0, 100]} tickFormatter={(v: number) => `${v}%`} stroke="#666666" style={{ fontSize: '12px' }} tick={{ fill: '#666666' }} />
-        <Tooltip content={<RetentionTooltip />} />
+        <Tooltip content={<RetentionTooltip series={series} minSampleSize={minSampleSize} />} />
+        {series && <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }} />}
         {firstImmatureDay !== null && (
           <ReferenceArea x1={firstImmatureDay} x2={MAX_RETENTION_DAY} y1={0} y2={100}
             fill="#999999" fillOpacity={0.12} stroke="#cccccc" strokeOpacity={0.5} strokeDasharray="4 4"
             label={{ value: 'Data not available', fill: '#888888', fontSize: 12, position: 'insideTop' }}
             ifOverflow="extendDomain" />
         )}
-        <Line type="monotone" dataKey="matureRatePct" stroke="#333333" strokeWidth={2}
+        <Area type="monotone" dataKey="ci" stroke="none" fill="#333333" fillOpacity={0.08}
+          isAnimationActive={false} activeDot={false} legendType="none" connectNulls={false} />
+        <Line type="monotone" dataKey="matureRatePct" name={label} stroke="#333333" strokeWidth={2}
           dot={renderDot} activeDot={{ r: 5, fill: '#1a1a1a' }} isAnimationActive={false} connectNulls={false}>
           <LabelList content={renderKeyDayLabel} />
         </Line>
+        <Line type="monotone" dataKey="lowSampleRatePct" stroke="#bbbbbb" strokeWidth={1.5} strokeDasharray="4 3"
+          dot={renderDot} activeDot={{ r: 4, fill: '#bbbbbb' }} isAnimationActive={false} connectNulls={false} legendType="none" />
+        {overlays.map((o, i) => (
+          <Line key={i} type="monotone" dataKey={`series${i + 1}`} name={o.label} stroke={o.color} strokeWidth={2}
+            dot={false} activeDot={{ r: 4, fill: o.color }} isAnimationActive={false} connectNulls={false} />
+        ))}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+// Small-multiple retention curve (mature days only, shared 0–100% scale).
+export function RetentionSparkline({ data, color = '#333333', height = 140 }: { data: RetentionPoint[]; color?: string; height?: number }) {
+  const lineData = data.map((p) => ({ ...p, matureRatePct: p.mature && p.hasData ? p.ratePct : null }));
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={lineData} margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+        <XAxis dataKey="day" type="number" domain={[1, MAX_RETENTION_DAY]} ticks={[...KEY_RETENTION_DAYS]}
+          tickFormatter={(v: number) => `D${v}`} stroke="#999999" style={{ fontSize: '10px' }} tick={{ fill: '#999999' }} />
+        <YAxis domain={[0, 100]} ticks={[0, 50, 100]} tickFormatter={(v: number) => `${v}%`} stroke="#999999" style={{ fontSize: '10px' }} tick={{ fill: '#999999' }} />
+        <Tooltip content={<RetentionTooltip />} />
+        <Line type="monotone" dataKey="matureRatePct" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls={false} />
       </LineChart>
     </ResponsiveContainer>
   );
 }
 
+// ---------------------------------------------------------------------------
+// Cohort retention heatmap
+// ---------------------------------------------------------------------------
+
+// White → blue ramp for a 0–100% cell value.
+export const heatColor = (pct: number): string => {
+  const t = Math.max(0, Math.min(1, pct / 100));
+  const mix = (from: number, to: number) => Math.round(from + (to - from) * t);
+  return `rgb(${mix(240, 26)}, ${mix(245, 115)}, ${mix(255, 232)})`;
+};
+
+export function CohortHeatmap({
+  rows,
+  columnLabel,
+  rowHeader = 'Cohort',
+}: {
+  rows: CohortRow[];
+  columnLabel: (period: number) => string;
+  rowHeader?: string;
+}) {
+  if (rows.length === 0) return <div className="empty-state">No cohort data yet</div>;
+  const periods = rows[0].points.map((p) => p.day);
+  return (
+    <div className="cohort-heatmap">
+      <table>
+        <thead>
+          <tr>
+            <th>{rowHeader}</th>
+            <th>Users</th>
+            {periods.map((n) => <th key={n}>{columnLabel(n)}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="cohort-heatmap-label">{row.label}</td>
+              <td className="cohort-heatmap-size">{row.size}</td>
+              {row.points.map((p) => {
+                if (!p.mature || !p.hasData) {
+                  return (
+                    <td key={p.day} className="cohort-heatmap-cell immature"
+                      title={`${row.label} · ${columnLabel(p.day)} · not enough elapsed days yet`} />
+                  );
+                }
+                return (
+                  <td key={p.day} className="cohort-heatmap-cell"
+                    style={{ background: heatColor(p.ratePct), color: p.ratePct >= 50 ? '#ffffff' : '#1a1a1a' }}
+                    title={`${row.label} · ${columnLabel(p.day)} · ${p.returned} / ${p.eligible} eligible users`}>
+                    {p.ratePct.toFixed(0)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Calendar heatmap (one square per day, one column per week)
+// ---------------------------------------------------------------------------
+export function CalendarHeatmap({
+  counts,
+  start,
+  end,
+  unitLabel,
+  weekStartsOn = 1,
+}: {
+  counts: Map<string, number>;
+  start: string;
+  end: string;
+  unitLabel: string;
+  weekStartsOn?: number;
+}) {
+  const weeks: string[] = [];
+  for (let w = periodStartKey(start, 'week', weekStartsOn); w <= end; w = addDays(w, 7)) weeks.push(w);
+  let max = 0;
+  let total = 0;
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    const v = counts.get(d) ?? 0;
+    max = Math.max(max, v);
+    total += v;
+  }
+  const weekdayLabels = Array.from({ length: 7 }, (_, i) =>
+    WEEKDAY_LABELS[(i + weekStartsOn + 6) % 7]);
+  return (
+    <div className="calendar-heatmap">
+      <div className="calendar-heatmap-body">
+        <div className="calendar-heatmap-weekdays">
+          <span />
+          {weekdayLabels.map((l, i) => <span key={l}>{i % 2 === 0 ? l : ''}</span>)}
+        </div>
+        {weeks.map((w, wi) => {
+          const firstInRange = w < start ? start : w;
+          const showMonth = wi === 0 || firstInRange.slice(0, 7) !== (weeks[wi - 1] < start ? start : weeks[wi - 1]).slice(0, 7);
+          return (
+            <div key={w} className="calendar-heatmap-week">
+              <span className="calendar-heatmap-month">{showMonth ? firstInRange.slice(0, 7) : ''}</span>
+              {Array.from({ length: 7 }, (_, i) => {
+                const d = addDays(w, i);
+                if (d < start || d > end) return <span key={d} className="calendar-heatmap-day outside" />;
+                const v = counts.get(d) ?? 0;
+                return (
+                  <span key={d} className="calendar-heatmap-day"
+                    style={v > 0 ? { background: heatColor(25 + (v / max) * 75) } : undefined}
+                    title={`${d} · ${v} ${unitLabel}`} />
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+      <div className="calendar-heatmap-legend">
+        <span>{total.toLocaleString()} {unitLabel} · peak {max.toLocaleString()}/day</span>
+        <span className="calendar-heatmap-scale">
+          Less
+          <span className="calendar-heatmap-day" />
+          {[25, 50, 75, 100].map((pct) => <span key={pct} className="calendar-heatmap-day" style={{ background: heatColor(pct) }} />)}
+          More
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Hour-of-day × weekday heatmap
+// ---------------------------------------------------------------------------
+export function HourWeekdayHeatmap({
+  grid,
+  unitLabel,
+  normalize,
+}: {
+  grid: number[][];
+  unitLabel: string;
+  /** When true, each weekday row shows its share per hour and is coloured against its own peak */
+  normalize: boolean;
+}) {
+  const globalMax = Math.max(0, ...grid.flat());
+  if (globalMax === 0) return <div className="empty-state">No activity in this range</div>;
+  return (
+    <div className="cohort-heatmap">
+      <table>
+        <thead>
+          <tr>
+            <th />
+            {Array.from({ length: 24 }, (_, h) => <th key={h}>{h}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {grid.map((row, d) => {
+            const rowTotal = row.reduce((sum, v) => sum + v, 0);
+            const rowMax = Math.max(0, ...row);
+            return (
+              <tr key={WEEKDAY_LABELS[d]}>
+                <td className="cohort-heatmap-label">{WEEKDAY_LABELS[d]}</td>
+                {row.map((v, h) => {
+                  const pct = normalize
+                    ? (rowMax > 0 ? (v / rowMax) * 100 : 0)
+                    : (v / globalMax) * 100;
+                  const share = rowTotal > 0 ? (v / rowTotal) * 100 : 0;
+                  return (
+                    <td key={h} className="cohort-heatmap-cell"
+                      style={{ background: heatColor(pct), color: pct >= 50 ? '#ffffff' : '#1a1a1a' }}
+                      title={`${WEEKDAY_LABELS[d]} ${String(h).padStart(2, '0')}:00 · ${v} ${unitLabel} · ${share.toFixed(1)}% of the day`}>
+                      {normalize ? share.toFixed(0) : v}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Pie chart (nivo)
 // ---------------------------------------------------------------------------
@@ -251,12 +1330,15 @@ export function CountPieChart({
   topN = 15,
   height = 460,
   hideCount = false,
+  onSelect,
 }: {
   data: CountEntry[];
   topN?: number;
   height?: number;
   /** When true, only show percentages — no raw counts (for restricted roles) */
   hideCount?: boolean;
+  /** Click on a slice / legend row (never fired for the "Other" slice) */
+  onSelect?: (name: string) => void;
 }) {
   if (data.length === 0) return <div className="empty-state">No data available</div>;
   const total = data.reduce((sum, e) => sum + e.value, 0);
@@ -272,9 +1354,10 @@ export function CountPieChart({
   const pieData = sliced.map((e) => ({ id: e.name, label: e.name, value: e.value }));
   const colorFor = (idx: number) => PIE_COLORS[idx % PIE_COLORS.length];
   const formatPct = (value: number) => total > 0 ? `${((value / total) * 100).toFixed(1)}%` : '0%';
+  const isSelectable = (name: string) => !!onSelect && !isOtherBucket(name);
 
   return (
-    <div className="pie-chart-block">
+    <div className={`pie-chart-block ${onSelect ? 'selectable' : ''}`}>
       <div className="pie-chart-canvas" style={{ height }}>
         <ResponsivePie
           data={pieData}
@@ -301,11 +1384,16 @@ export function CountPieChart({
             labels: { text: { fontSize: 12, fontWeight: 600 } },
           }}
           animate={false}
+          onClick={(datum) => { if (isSelectable(String(datum.id))) onSelect?.(String(datum.id)); }}
         />
       </div>
       <ul className="pie-legend">
         {sliced.map((entry, idx) => (
-          <li key={entry.name} className="pie-legend-item">
+          <li
+            key={entry.name}
+            className={`pie-legend-item ${isSelectable(entry.name) ? 'selectable' : ''}`}
+            onClick={isSelectable(entry.name) ? () => onSelect?.(entry.name) : undefined}
+          >
             <span className="pie-legend-swatch" style={{ backgroundColor: colorFor(idx) }} />
             <span className="pie-legend-name" title={entry.name}>{entry.name}</span>
             <span className="pie-legend-value">
@@ -369,11 +1457,13 @@ function RankingTooltipContent({
   );
 }
 
-export function RankingBarChart({ data, mode = 'count', valueLabel = 'Count', breakdownGroups }: {
+export function RankingBarChart({ data, mode = 'count', valueLabel = 'Count', breakdownGroups, onSelect }: {
   data: CountEntry[];
   mode?: RankingMode;
   valueLabel?: string;
   breakdownGroups?: BreakdownGroup[];
+  /** Click on a bar (never fired for the "Other" bar) */
+  onSelect?: (name: string) => void;
 }) {
   if (data.length === 0) return <div className="empty-state">No data available</div>;
   const height = Math.max(220, data.length * 36 + 40);
@@ -393,7 +1483,16 @@ export function RankingBarChart({ data, mode = 'count', valueLabel = 'Count', br
           content={<RankingTooltipContent total={total} valueLabel={valueLabel} breakdownGroups={breakdownGroups} />}
           cursor={{ fill: 'rgba(0, 0, 0, 0.04)' }}
         />
-        <Bar dataKey="display" fill="#4285f4" isAnimationActive={false}>
+        <Bar
+          dataKey="display"
+          fill="#4285f4"
+          isAnimationActive={false}
+          cursor={onSelect ? 'pointer' : undefined}
+          onClick={(_, index) => {
+            const name = chartData[index]?.name;
+            if (onSelect && name && !isOtherBucket(name)) onSelect(name);
+          }}
+        >
           <LabelList dataKey="display" position="right" fill="#333333" fontSize={11} fontWeight={500}
             formatter={(v: number | string) => typeof v === 'number' ? formatBarValue(v) : String(v)} />
         </Bar>
@@ -411,6 +1510,7 @@ export function RankingSection({
   pointLabel = 'data points',
   breakdownGroups,
   hideCount = false,
+  onSelect,
 }: {
   title: string;
   subtitle?: string;
@@ -422,6 +1522,7 @@ export function RankingSection({
   breakdownGroups?: BreakdownGroup[];
   /** When true, force percentage-only display and hide the Count button */
   hideCount?: boolean;
+  onSelect?: (name: string) => void;
 }) {
   const [mode, setMode] = useState<RankingMode>('count');
   const effectiveMode: RankingMode = hideCount ? 'percent' : mode;
@@ -446,7 +1547,7 @@ export function RankingSection({
         )}
       </div>
       <div className="chart-container">
-        <RankingBarChart data={data} mode={effectiveMode} valueLabel={valueLabel} breakdownGroups={breakdownGroups} />
+        <RankingBarChart data={data} mode={effectiveMode} valueLabel={valueLabel} breakdownGroups={breakdownGroups} onSelect={onSelect} />
       </div>
     </div>
   );
@@ -0,0 +1,422 @@
+// ---------------------------------------------------------------------------
+// Dashboard view state ⇄ URL. The tab is the path (/retention, /top-users…);
+// everything else is a query param, written only when it differs from the
+// default so links stay short.
+// ---------------------------------------------------------------------------
+import {
+  TimeRange,
+  ChartGranularity,
+  CompareMode,
+  PeriodUnit,
+  RetentionMode,
+  MauMode,
+  MeaningfulEventType,
+  MEANINGFUL_EVENT_TYPES,
+  BROWSER_TIME_ZONE,
+  isValidTimeZone,
+  todayTzKey,
+  addDays,
+  DEFAULT_MIN_SAMPLE_SIZE,
+  MAX_MIN_SAMPLE_SIZE,
+} from './dashboardUtils';
+import {
+  PaidViewState,
+  PAID_SORT_MODES,
+  PAID_SURVIVAL_SPLITS,
+  PAID_RATE_GRANULARITIES,
+  defaultPaidView,
+} from './paidViewState';
+import {
+  SegmentFilter,
+  SegmentDimension,
+  PaidStatus,
+  CompareSegment,
+  MIN_COMPARE_SEGMENTS,
+  MAX_COMPARE_SEGMENTS,
+  EMPTY_SEGMENT,
+  SEGMENT_DIMENSIONS,
+} from './segmentFilter';
+import {
+  FunnelStep,
+  FunnelStepKind,
+  FunnelBreakdown,
+  FUNNEL_STEP_KINDS,
+  FUNNEL_BREAKDOWN_LABELS,
+  DEFAULT_FUNNEL_STEPS,
+} from './funnelSteps';
+
+export type DashboardTab = 'general' | 'retention' | 'funnel' | 'compare' | 'analytics' | 'pollData' | 'topUsers' | 'paid';
+
+export const ADMIN_ONLY_TABS: DashboardTab[] = ['retention', 'funnel', 'compare', 'paid'];
+
+const TAB_PATHS: Record<DashboardTab, string> = {
+  general: 'general',
+  retention: 'retention',
+  funnel: 'funnel',
+  compare: 'compare',
+  analytics: 'analytics',
+  pollData: 'poll-data',
+  topUsers: 'top-users',
+  paid: 'paid',
+};
+
+export type DateRange = { start: string; end: string };
+
+export type DashboardViewState = {
+  tab: DashboardTab;
+  timeZone: string;
+  activeEventTypes: MeaningfulEventType[];
+  timeRange: TimeRange;
+  chartRange: DateRange;
+  chartGranularity: ChartGranularity;
+  weekStartsOn: number;
+  compareMode: CompareMode;
+  compareStart: string;
+  lifecyclePeriod: PeriodUnit;
+  signupRange: DateRange;
+  retentionMode: RetentionMode;
+  // Extra signup cohorts overlaid on the Day-N retention curve.
+  retentionOverlays: DateRange[];
+  retentionBreakdown: SegmentDimension;
+  // Rates with a smaller denominator are faded and flagged as small samples.
+  minSampleSize: number;
+  firstConversationRange: DateRange;
+  cohortPeriod: 'week' | 'month';
+  cohortColumns: 'day' | 'week';
+  dauDate: string;
+  mauMode: MauMode;
+  mauMonth: string;
+  mauEndDate: string;
+  stickinessRange: DateRange;
+  weeklyPatternRange: DateRange;
+  weeklyPatternMetric: 'conversations' | 'users';
+  // Show each hour as a share of its weekday.
+  weeklyPatternNormalize: boolean;
+  calendarMetric: 'conversations' | 'users';
+  // '' = trailing 12 months, otherwise a calendar year such as '2025'
+  calendarYear: string;
+  topUsersRange: DateRange;
+  topK: number;
+  powerUserWindow: 7 | 30;
+  powerUserEnd: string;
+  // '' = comparison off; otherwise the end date of the second window.
+  powerUserCompareEnd: string;
+  paidView: PaidViewState;
+  segment: SegmentFilter;
+  // [] = the data-driven default (the two largest identities).
+  compareSegments: CompareSegment[];
+  compareTrendPeriod: 'week' | 'month';
+  compareRetentionMode: RetentionMode;
+  funnelSignupRange: DateRange;
+  funnelSteps: FunnelStep[];
+  funnelBreakdown: FunnelBreakdown;
+};
+
+const lastDays = (today: string, n: number): DateRange => ({ start: addDays(today, -(n - 1)), end: today });
+
+export function defaultViewState(): DashboardViewState {
+  const today = todayTzKey(BROWSER_TIME_ZONE);
+  return {
+    tab: 'general',
+    timeZone: BROWSER_TIME_ZONE,
+    activeEventTypes: [...MEANINGFUL_EVENT_TYPES],
+    timeRange: '7d',
+    chartRange: lastDays(today, 90),
+    chartGranularity: 'auto',
+    weekStartsOn: 1,
+    compareMode: 'off',
+    compareStart: addDays(today, -60),
+    lifecyclePeriod: 'week',
+    signupRange: { start: '', end: '' },
+    retentionMode: 'exact',
+    retentionOverlays: [],
+    retentionBreakdown: 'identity',
+    minSampleSize: DEFAULT_MIN_SAMPLE_SIZE,
+    firstConversationRange: { start: '', end: '' },
+    cohortPeriod: 'week',
+    cohortColumns: 'day',
+    dauDate: today,
+    mauMode: 'rolling',
+    mauMonth: today.slice(0, 7),
+    mauEndDate: today,
+    stickinessRange: lastDays(today, 90),
+    weeklyPatternRange: lastDays(today, 90),
+    weeklyPatternMetric: 'conversations',
+    weeklyPatternNormalize: false,
+    calendarMetric: 'conversations',
+    calendarYear: '',
+    topUsersRange: lastDays(today, 30),
+    topK: 20,
+    powerUserWindow: 7,
+    powerUserEnd: today,
+    powerUserCompareEnd: '',
+    paidView: defaultPaidView(BROWSER_TIME_ZONE),
+    segment: { ...EMPTY_SEGMENT },
+    compareSegments: [],
+    compareTrendPeriod: 'week',
+    compareRetentionMode: 'exact',
+    funnelSignupRange: { start: '', end: '' },
+    funnelSteps: DEFAULT_FUNNEL_STEPS,
+    funnelBreakdown: 'none',
+  };
+}
+
+// ----- Param codecs ---------------------------------------------------------
+type Codec<T> = { encode: (v: T) => string; decode: (raw: string) => T | undefined };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string | number>(values: readonly T[]): Codec<T> => ({
+  encode: (v) => String(v),
+  decode: (raw) => values.find((v) => String(v) === raw),
+});
+
+const dateCodec: Codec<string> = {
+  encode: (v) => v,
+  decode: (raw) => (DATE_RE.test(raw) ? raw : undefined),
+};
+
+// For fields where '' means "not set" (e.g. comparison off).
+const optionalDateCodec: Codec<string> = {
+  encode: (v) => v,
+  decode: (raw) => (raw === '' ? raw : dateCodec.decode(raw)),
+};
+
+const monthCodec: Codec<string> = {
+  encode: (v) => v,
+  decode: (raw) => (/^\d{4}-\d{2}$/.test(raw) ? raw : undefined),
+};
+
+// '' = not set (e.g. trailing 12 months instead of a calendar year).
+const optionalYearCodec: Codec<string> = {
+  encode: (v) => v,
+  decode: (raw) => (raw === '' || /^\d{4}$/.test(raw) ? raw : undefined),
+};
+
+const boolCodec: Codec<boolean> = {
+  encode: (v) => (v ? '1' : '0'),
+  decode: (raw) => (raw === '1' ? true : raw === '0' ? false : undefined),
+};
+
+// "2025-01-01..2025-03-31"; either side may be empty.
+const rangeCodec: Codec<DateRange> = {
+  encode: (v) => `${v.start}..${v.end}`,
+  decode: (raw) => {
+    const [start, end, ...rest] = raw.split('..');
+    if (rest.length > 0 || end == null) return undefined;
+    if ((start && !DATE_RE.test(start)) || (end && !DATE_RE.test(end))) return undefined;
+    return { start, end };
+  },
+};
+
+const rangeListCodec: Codec<DateRange[]> = {
+  encode: (v) => v.map(rangeCodec.encode).join(','),
+  decode: (raw) => {
+    const ranges = raw.split(',').map(rangeCodec.decode);
+    return ranges.every((r): r is DateRange => r !== undefined) ? ranges : undefined;
+  },
+};
+
+const intCodec = (min: number, max: number): Codec<number> => ({
+  encode: (v) => String(v),
+  decode: (raw) => {
+    const n = Number(raw);
+    return Number.isInteger(n) && n >= min && n <= max ? n : undefined;
+  },
+});
+
+const eventTypesCodec: Codec<MeaningfulEventType[]> = {
+  encode: (v) => v.join(','),
+  decode: (raw) => {
+    const types = MEANINGFUL_EVENT_TYPES.filter((t) => raw.split(',').includes(t));
+    return types.length > 0 ? types : undefined;
+  },
+};
+
+const timeZoneCodec: Codec<string> = {
+  encode: (v) => v,
+  decode: (raw) => (isValidTimeZone(raw) ? raw : undefined),
+};
+
+const currencyCodec: Codec<string> = {
+  encode: (v) => v,
+  decode: (raw) => (/^[A-Z]{3}$/.test(raw) ? raw : undefined),
+};
+
+// Free-text values (country names…) may contain commas, so lists use '|'.
+const listCodec: Codec<string[]> = {
+  encode: (v) => v.join('|'),
+  decode: (raw) => {
+    const values = raw.split('|').filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  },
+};
+
+// Each segment is its own nested query ("name=Students&identity=Student"),
+// which percent-encodes commas, so the list can be comma-separated.
+const compareSegmentsCodec: Codec<CompareSegment[]> = {
+  encode: (v) =>
+    v
+      .map((s) => {
+        const params = new URLSearchParams({ name: s.name });
+        writeParams(SEGMENT_PARAMS, s.filter, EMPTY_SEGMENT, params);
+        return params.toString();
+      })
+      .join(','),
+  decode: (raw) => {
+    const parts = raw.split(',');
+    if (parts.length < MIN_COMPARE_SEGMENTS || parts.length > MAX_COMPARE_SEGMENTS) return undefined;
+    return parts.map((part, i) => {
+      const params = new URLSearchParams(part);
+      const filter: SegmentFilter = { ...EMPTY_SEGMENT };
+      readParams(SEGMENT_PARAMS, params, filter);
+      return { id: i + 1, name: params.get('name') || `Segment ${String.fromCharCode(65 + i)}`, filter };
+    });
+  },
+};
+
+// "first_conversation:24,day_n_return:1"; '' = no steps.
+const funnelStepsCodec: Codec<FunnelStep[]> = {
+  encode: (v) => v.map((s) => `${s.kind}:${s.param}`).join(','),
+  decode: (raw) => {
+    if (raw === '') return [];
+    const steps: FunnelStep[] = [];
+    for (const part of raw.split(',')) {
+      const [rawKind, param] = part.split(':');
+      const kind = (Object.keys(FUNNEL_STEP_KINDS) as FunnelStepKind[]).find((k) => k === rawKind);
+      const n = Number(param);
+      if (!kind || !Number.isInteger(n) || n < FUNNEL_STEP_KINDS[kind].min || n > FUNNEL_STEP_KINDS[kind].max) return undefined;
+      steps.push({ id: steps.length + 1, kind, param: n });
+    }
+    return steps;
+  },
+};
+
+type ParamSpec<S> = { [K in keyof S]?: { param: string; codec: Codec<S[K]> } };
+
+const VIEW_PARAMS: ParamSpec<DashboardViewState> = {
+  timeZone: { param: 'tz', codec: timeZoneCodec },
+  activeEventTypes: { param: 'events', codec: eventTypesCodec },
+  timeRange: { param: 'range', codec: oneOf<TimeRange>(['12h', '1d', '7d', '30d', '90d', '1y', 'custom']) },
+  chartRange: { param: 'dates', codec: rangeCodec },
+  chartGranularity: { param: 'gran', codec: oneOf<ChartGranularity>(['auto', 'hour', 'day', 'week', 'month']) },
+  weekStartsOn: { param: 'weekStart', codec: intCodec(0, 1) },
+  compareMode: { param: 'compare', codec: oneOf<CompareMode>(['off', 'previous', 'lastMonth', 'custom']) },
+  compareStart: { param: 'compareFrom', codec: dateCodec },
+  lifecyclePeriod: { param: 'lifecycle', codec: oneOf<PeriodUnit>(['day', 'week', 'month']) },
+  signupRange: { param: 'signup', codec: rangeCodec },
+  retentionMode: { param: 'retention', codec: oneOf<RetentionMode>(['exact', 'rolling']) },
+  retentionOverlays: { param: 'overlays', codec: rangeListCodec },
+  retentionBreakdown: { param: 'retentionBy', codec: oneOf(SEGMENT_DIMENSIONS.map((d) => d.key)) },
+  minSampleSize: { param: 'minN', codec: intCodec(1, MAX_MIN_SAMPLE_SIZE) },
+  firstConversationRange: { param: 'firstConv', codec: rangeCodec },
+  cohortPeriod: { param: 'cohort', codec: oneOf(['week', 'month'] as const) },
+  cohortColumns: { param: 'cohortCols', codec: oneOf(['day', 'week'] as const) },
+  dauDate: { param: 'dau', codec: dateCodec },
+  mauMode: { param: 'mau', codec: oneOf<MauMode>(['rolling', 'month', 'endDate']) },
+  mauMonth: { param: 'mauMonth', codec: monthCodec },
+  mauEndDate: { param: 'mauEnd', codec: dateCodec },
+  stickinessRange: { param: 'stickiness', codec: rangeCodec },
+  weeklyPatternRange: { param: 'weekly', codec: rangeCodec },
+  weeklyPatternMetric: { param: 'weeklyBy', codec: oneOf(['conversations', 'users'] as const) },
+  weeklyPatternNormalize: { param: 'weeklyPct', codec: boolCodec },
+  calendarMetric: { param: 'calendarBy', codec: oneOf(['conversations', 'users'] as const) },
+  calendarYear: { param: 'calendarYear', codec: optionalYearCodec },
+  topUsersRange: { param: 'top', codec: rangeCodec },
+  topK: { param: 'topK', codec: intCodec(1, 500) },
+  powerUserWindow: { param: 'powerWindow', codec: oneOf([7, 30] as const) },
+  powerUserEnd: { param: 'powerEnd', codec: dateCodec },
+  powerUserCompareEnd: { param: 'powerCompare', codec: optionalDateCodec },
+  compareSegments: { param: 'segments', codec: compareSegmentsCodec },
+  compareTrendPeriod: { param: 'segmentTrend', codec: oneOf(['week', 'month'] as const) },
+  compareRetentionMode: { param: 'segmentRetention', codec: oneOf<RetentionMode>(['exact', 'rolling']) },
+  funnelSignupRange: { param: 'funnelSignup', codec: rangeCodec },
+  funnelSteps: { param: 'funnelSteps', codec: funnelStepsCodec },
+  funnelBreakdown: { param: 'funnelBy', codec: oneOf(Object.keys(FUNNEL_BREAKDOWN_LABELS) as FunnelBreakdown[]) },
+};
+
+const PAID_VIEW_PARAMS: ParamSpec<PaidViewState> = {
+  sortMode: { param: 'paidSort', codec: oneOf(PAID_SORT_MODES) },
+  paidRateGranularity: { param: 'paidGran', codec: oneOf(PAID_RATE_GRANULARITIES) },
+  retentionMode: { param: 'paidRetention', codec: oneOf(['exact', 'rolling'] as const) },
+  paidRateView: { param: 'paidRate', codec: oneOf(['broad', 'strict'] as const) },
+  paidRateStartDate: { param: 'paidFrom', codec: dateCodec },
+  paidRateEndDate: { param: 'paidTo', codec: dateCodec },
+  userFilter: { param: 'paidUsers', codec: oneOf(['all', 'active', 'churned'] as const) },
+  revenueGranularity: { param: 'revGran', codec: oneOf(['day', 'month'] as const) },
+  revenueCurrency: { param: 'currency', codec: currencyCodec },
+  mrrMonth: { param: 'mrrMonth', codec: monthCodec },
+  ltvMetric: { param: 'ltv', codec: oneOf(['days', 'revenue'] as const) },
+  survivalSplit: { param: 'survivalBy', codec: oneOf(PAID_SURVIVAL_SPLITS) },
+};
+
+const SEGMENT_PARAMS: ParamSpec<SegmentFilter> = {
+  country: { param: 'country', codec: listCodec },
+  nationality: { param: 'nationality', codec: listCodec },
+  identity: { param: 'identity', codec: listCodec },
+  initialFunction: { param: 'initialFn', codec: listCodec },
+  acquisitionSource: { param: 'source', codec: listCodec },
+  loginCountry: { param: 'loginCountry', codec: listCodec },
+  signup: { param: 'signedUp', codec: rangeCodec },
+  paid: { param: 'plan', codec: oneOf<PaidStatus>(['any', 'paid', 'free']) },
+};
+
+function writeParams<S>(spec: ParamSpec<S>, state: S, defaults: S, params: URLSearchParams) {
+  for (const key of Object.keys(spec) as (keyof S)[]) {
+    const { param, codec } = spec[key]!;
+    const encoded = codec.encode(state[key]);
+    if (encoded !== codec.encode(defaults[key])) params.set(param, encoded);
+  }
+}
+
+function readParams<S>(spec: ParamSpec<S>, params: URLSearchParams, into: S) {
+  for (const key of Object.keys(spec) as (keyof S)[]) {
+    const { param, codec } = spec[key]!;
+    const raw = params.get(param);
+    if (raw == null) continue;
+    const value = codec.decode(raw);
+    if (value !== undefined) into[key] = value;
+  }
+}
+
+// ----- Public API -----------------------------------------------------------
+export function viewStateToUrl(state: DashboardViewState): string {
+  const defaults = defaultViewState();
+  const params = new URLSearchParams();
+  writeParams(VIEW_PARAMS, state, defaults, params);
+  writeParams(PAID_VIEW_PARAMS, state.paidView, defaults.paidView, params);
+  writeParams(SEGMENT_PARAMS, state.segment, defaults.segment, params);
+  // The default zone is the sender's browser zone, which the recipient may
+  // not share, so a link always pins it.
+  params.set('tz', state.timeZone);
+  const query = params.toString();
+  return `/${TAB_PATHS[state.tab]}${query ? `?${query}` : ''}`;
+}
+
+// Unknown paths, malformed params and tabs the role can't see fall back to
+// the defaults.
+export function viewStateFromUrl(
+  location: { pathname: string; search: string },
+  role: string,
+): DashboardViewState {
+  const state = defaultViewState();
+  const segment = location.pathname.split('/').filter(Boolean).pop() ?? '';
+  const tab = (Object.keys(TAB_PATHS) as DashboardTab[]).find((t) => TAB_PATHS[t] === segment);
+  if (tab && (role === 'admin' || !ADMIN_ONLY_TABS.includes(tab))) state.tab = tab;
+  const params = new URLSearchParams(location.search);
+  readParams(VIEW_PARAMS, params, state);
+  readParams(PAID_VIEW_PARAMS, params, state.paidView);
+  readParams(SEGMENT_PARAMS, params, state.segment);
+  // Filtering by paid status would reveal who pays.
+  if (role !== 'admin') state.segment.paid = 'any';
+  return state;
+}
+
+// Same as viewStateFromUrl for a stored "/tab?query" string.
+export function viewStateFromUrlString(url: string, role: string): DashboardViewState {
+  const q = url.indexOf('?');
+  return viewStateFromUrl(
+    { pathname: q < 0 ? url : url.slice(0, q), search: q < 0 ? '' : url.slice(q) },
+    role,
+  );
+}
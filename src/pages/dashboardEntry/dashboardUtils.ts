@@ -3,6 +3,21 @@
 
 export const HOUR_MS = 60 * 60 * 1000;
 export const MAX_RETENTION_DAY = 30;
+export const MAX_RETENTION_WEEK = 12;
+export const COHORT_MAX_ROWS = 16;
+// Retention breakdown categories with fewer D1-eligible users fold into "Other".
+export const RETENTION_BREAKDOWN_MIN_ELIGIBLE = 20;
+// Rates with a smaller denominator are drawn faded and flagged in tooltips.
+export const DEFAULT_MIN_SAMPLE_SIZE = 30;
+export const MAX_MIN_SAMPLE_SIZE = 10000;
+export const FIRST_CONVERSATION_BUCKETS: ReadonlyArray<{ label: string; maxMs: number }> = [
+  { label: '< 5 min', maxMs: 5 * 60 * 1000 },
+  { label: '< 1 h', maxMs: HOUR_MS },
+  { label: '< 1 d', maxMs: 24 * HOUR_MS },
+  { label: '< 7 d', maxMs: 7 * 24 * HOUR_MS },
+  { label: '≥ 7 d', maxMs: Infinity },
+];
+export const LIFECYCLE_PERIOD_COUNT: Record<PeriodUnit, number> = { day: 30, week: 12, month: 12 };
 export const KEY_RETENTION_DAYS = [1, 7, 30] as const;
 export const RANKING_MAX_BARS = 10;
 export const CATEGORICAL_COLORS = [
@@ -10,9 +25,14 @@ export const CATEGORICAL_COLORS = [
   '#00acc1', '#f4b400', '#5e35b1', '#43a047', '#9aa0a6',
 ];
 
-export type TimeRange = '12h' | '1d' | '7d' | '30d';
+export type TimeRange = '12h' | '1d' | '7d' | '30d' | '90d' | '1y' | 'custom';
+export type BucketUnit = 'hour' | 'day' | 'week' | 'month';
+export type ChartGranularity = 'auto' | BucketUnit;
+export type CompareMode = 'off' | 'previous' | 'lastMonth' | 'custom';
 export type RankingMode = 'count' | 'percent';
 export type MauMode = 'rolling' | 'month' | 'endDate';
+export type RetentionMode = 'exact' | 'rolling';
+export type PeriodUnit = 'day' | 'week' | 'month';
 export type CountEntry = { name: string; value: number };
 export type RetentionPoint = {
   day: number;
@@ -22,16 +42,134 @@ export type RetentionPoint = {
   hasData: boolean;
   mature: boolean;
 };
+export type LifecyclePoint = {
+  time: string;
+  newUsers: number;
+  retained: number;
+  resurrected: number;
+  churned: number; // negative: users active last period but not this one
+  activeUsers: number;
+};
+export type StickinessPoint = {
+  time: string;
+  dau: number;
+  wau: number;
+  mau: number;
+  dauMau: number;
+  wauMau: number;
+};
+export type PowerUserPoint = {
+  days: number;
+  users: number;
+  compareUsers: number;
+};
+export type DelayBucket = {
+  label: string;
+  users: number;
+  pct: number;
+  cumulativePct: number | null; // null for the "Never" bucket
+};
+export type SurvivalPoint = {
+  day: number;
+  survivalPct: number;
+  atRisk: number;
+  events: number;
+};
+export type CohortRow = {
+  key: string;
+  label: string;
+  size: number;
+  points: RetentionPoint[];
+};
 export type BreakdownGroup = {
   label: string;
   data: Record<string, CountEntry[]>;
 };
-export type TimezoneOption = { key: string; label: string; offsetMs: number };
+// ---------------------------------------------------------------------------
+// Timezones. Dates are bucketed in an IANA zone by "shifting" UTC ms by the
+// zone's offset at that instant (DST included), so UTC getters on the shifted
+// Date return local wall-clock fields.
+// ---------------------------------------------------------------------------
+export const BROWSER_TIME_ZONE: string = (() => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+})();
 
-export const getBrowserOffsetMs = (): number =>
-  -new Date().getTimezoneOffset() * 60 * 1000;
+// Fallback for engines without Intl.supportedValuesOf.
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Toronto',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Hong_Kong',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Asia/Seoul',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
 
-export const BROWSER_OFFSET_MS = getBrowserOffsetMs();
+export const ALL_TIME_ZONES: string[] = (() => {
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+})();
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// DST transitions fall on quarter hours, so offsets are cached per zone and
+// 15-minute slot; one Intl call per slot instead of one per event.
+const OFFSET_SLOT_MS = 15 * 60 * 1000;
+const tzFormatters = new Map<string, Intl.DateTimeFormat>();
+const tzOffsetCache = new Map<string, Map<number, number>>();
+
+// Offset (ms) of `timeZone` from UTC at the instant `utcMs`.
+export function tzOffsetAt(timeZone: string, utcMs: number): number {
+  if (!Number.isFinite(utcMs)) return 0;
+  const slot = Math.floor(utcMs / OFFSET_SLOT_MS);
+  let cache = tzOffsetCache.get(timeZone);
+  if (!cache) { cache = new Map(); tzOffsetCache.set(timeZone, cache); }
+  const cached = cache.get(slot);
+  if (cached != null) return cached;
+  let fmt = tzFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    tzFormatters.set(timeZone, fmt);
+  }
+  const at = slot * OFFSET_SLOT_MS;
+  const f: Record<string, number> = {};
+  for (const p of fmt.formatToParts(new Date(at))) if (p.type !== 'literal') f[p.type] = Number(p.value);
+  const offset = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute) - at;
+  cache.set(slot, offset);
+  return offset;
+}
 
 export const formatGmtLabel = (offsetMs: number): string => {
   const totalMinutes = Math.round(offsetMs / (60 * 1000));
@@ -44,28 +182,26 @@ export const formatGmtLabel = (offsetMs: number): string => {
     : `GMT${sign}${h}:${String(m).padStart(2, '0')}`;
 };
 
-export const TIMEZONE_OPTIONS: TimezoneOption[] = [
-  { key: 'auto', label: `Auto · ${formatGmtLabel(BROWSER_OFFSET_MS)}`, offsetMs: BROWSER_OFFSET_MS },
-  { key: 'utc', label: 'UTC', offsetMs: 0 },
-  { key: 'la', label: 'GMT−8 · Los Angeles', offsetMs: -8 * HOUR_MS },
-  { key: 'nyc', label: 'GMT−5 · New York', offsetMs: -5 * HOUR_MS },
-  { key: 'london', label: 'GMT+0 · London', offsetMs: 0 },
-  { key: 'berlin', label: 'GMT+1 · Berlin', offsetMs: 1 * HOUR_MS },
-  { key: 'delhi', label: 'GMT+5:30 · Delhi', offsetMs: 5.5 * HOUR_MS },
-  { key: 'beijing', label: 'GMT+8 · Beijing', offsetMs: 8 * HOUR_MS },
-  { key: 'tokyo', label: 'GMT+9 · Tokyo', offsetMs: 9 * HOUR_MS },
-];
+// UTC ms → shifted ms in `timeZone`.
+export const toTzMs = (utcMs: number, timeZone: string): number => utcMs + tzOffsetAt(timeZone, utcMs);
 
-export const getTzNow = (offsetMs: number): Date => new Date(Date.now() + offsetMs);
+// Local midnight of `dateKey` in `timeZone`, as a UTC instant (ms).
+export const fromTzDateKey = (dateKey: string, timeZone: string): number => {
+  const wall = Date.parse(dateKey + 'T00:00:00Z');
+  const guess = wall - tzOffsetAt(timeZone, wall);
+  return wall - tzOffsetAt(timeZone, guess);
+};
 
-export const parseInTz = (utcString: string, offsetMs: number): Date =>
-  new Date(new Date(utcString).getTime() + offsetMs);
+export const getTzNow = (timeZone: string): Date => new Date(toTzMs(Date.now(), timeZone));
 
-export const toTzDateKey = (utcString: string, offsetMs: number): string =>
-  new Date(new Date(utcString).getTime() + offsetMs).toISOString().slice(0, 10);
+export const parseInTz = (utcString: string, timeZone: string): Date =>
+  new Date(toTzMs(new Date(utcString).getTime(), timeZone));
 
-export const todayTzKey = (offsetMs: number): string =>
-  new Date(Date.now() + offsetMs).toISOString().slice(0, 10);
+export const toTzDateKey = (utcString: string, timeZone: string): string =>
+  parseInTz(utcString, timeZone).toISOString().slice(0, 10);
+
+export const todayTzKey = (timeZone: string): string =>
+  getTzNow(timeZone).toISOString().slice(0, 10);
 
 export const addDays = (dateKey: string, days: number): string => {
   const d = new Date(dateKey + 'T00:00:00Z');
@@ -79,8 +215,183 @@ export const daysBetweenDateKeys = (fromKey: string, toKey: string): number => {
   return Math.round((to - from) / (24 * 60 * 60 * 1000));
 };
 
-export const formatDateTime = (utcString: string, offsetMs: number): string => {
-  const d = new Date(new Date(utcString).getTime() + offsetMs);
+// Start of the day / week / month containing `dateKey`. `weekStartsOn` follows
+// Date#getUTCDay (0 = Sunday … 6 = Saturday); weeks start on Monday by default.
+export const periodStartKey = (dateKey: string, unit: PeriodUnit, weekStartsOn = 1): string => {
+  const d = new Date(dateKey + 'T00:00:00Z');
+  if (unit === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() - weekStartsOn + 7) % 7));
+  else if (unit === 'month') d.setUTCDate(1);
+  return d.toISOString().slice(0, 10);
+};
+
+export const addPeriods = (periodKey: string, unit: PeriodUnit, n: number): string => {
+  if (unit === 'day') return addDays(periodKey, n);
+  if (unit === 'week') return addDays(periodKey, 7 * n);
+  const d = new Date(periodKey + 'T00:00:00Z');
+  d.setUTCMonth(d.getUTCMonth() + n);
+  return d.toISOString().slice(0, 10);
+};
+
+export const formatPeriodLabel = (periodKey: string, unit: PeriodUnit): string => {
+  if (unit === 'month') return periodKey.slice(0, 7);
+  const [, m, d] = periodKey.split('-').map(Number);
+  return unit === 'week' ? `Wk ${m}/${d}` : `${m}/${d}`;
+};
+
+// ---------------------------------------------------------------------------
+// Time buckets for the General tab charts. All timestamps are tz-shifted
+// (see parseInTz), so UTC getters return local wall-clock fields.
+// ---------------------------------------------------------------------------
+export const MAX_CHART_BUCKETS = 1000;
+
+const UNIT_MS: Record<BucketUnit, number> = {
+  hour: HOUR_MS,
+  day: 24 * HOUR_MS,
+  week: 7 * 24 * HOUR_MS,
+  month: 30 * 24 * HOUR_MS,
+};
+
+const PRESET_RANGE_MS: Record<Exclude<TimeRange, 'custom'>, number> = {
+  '12h': 12 * HOUR_MS,
+  '1d': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+  '30d': 30 * 24 * HOUR_MS,
+  '90d': 90 * 24 * HOUR_MS,
+  '1y': 365 * 24 * HOUR_MS,
+};
+
+// [start, end] of the chart window in shifted ms. Custom ranges cover whole
+// local days and are clipped to "now".
+export function resolveChartWindow(
+  range: TimeRange,
+  custom: { start: string; end: string },
+  timeZone: string,
+): { startMs: number; endMs: number } {
+  const now = getTzNow(timeZone).getTime();
+  if (range !== 'custom') return { startMs: now - PRESET_RANGE_MS[range], endMs: now };
+  const startMs = Date.parse(custom.start + 'T00:00:00Z');
+  const endMs = Math.min(now, Date.parse(custom.end + 'T00:00:00Z') + 24 * HOUR_MS - 1);
+  return { startMs, endMs };
+}
+
+// Bucket unit (and hour step) for 'auto'; presets keep their historical
+// intervals (12h → hourly, 1d → 2-hourly, 7d / 30d → daily).
+export function resolveGranularity(
+  granularity: ChartGranularity,
+  range: TimeRange,
+  spanMs: number,
+): { unit: BucketUnit; stepHours: number } {
+  if (granularity !== 'auto') return { unit: granularity, stepHours: 1 };
+  if (range === '12h') return { unit: 'hour', stepHours: 1 };
+  if (range === '1d') return { unit: 'hour', stepHours: 2 };
+  if (range === '1y') return { unit: 'week', stepHours: 1 };
+  if (range !== 'custom') return { unit: 'day', stepHours: 1 };
+  const days = spanMs / UNIT_MS.day;
+  if (days <= 2) return { unit: 'hour', stepHours: 1 };
+  if (days <= 92) return { unit: 'day', stepHours: 1 };
+  if (days <= 730) return { unit: 'week', stepHours: 1 };
+  return { unit: 'month', stepHours: 1 };
+}
+
+export const estimateBucketCount = (spanMs: number, unit: BucketUnit): number =>
+  Math.ceil(spanMs / UNIT_MS[unit]) + 1;
+
+export function floorToBucket(t: number, unit: BucketUnit, stepHours = 1, weekStartsOn = 1): number {
+  const d = new Date(t);
+  if (unit === 'hour') {
+    d.setUTCMinutes(0, 0, 0);
+    d.setUTCHours(d.getUTCHours() - (d.getUTCHours() % stepHours));
+    return d.getTime();
+  }
+  d.setUTCHours(0, 0, 0, 0);
+  if (unit === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() - weekStartsOn + 7) % 7));
+  else if (unit === 'month') d.setUTCDate(1);
+  return d.getTime();
+}
+
+export function nextBucket(t: number, unit: BucketUnit, stepHours = 1): number {
+  const d = new Date(t);
+  if (unit === 'hour') d.setUTCHours(d.getUTCHours() + stepHours);
+  else if (unit === 'day') d.setUTCDate(d.getUTCDate() + 1);
+  else if (unit === 'week') d.setUTCDate(d.getUTCDate() + 7);
+  else d.setUTCMonth(d.getUTCMonth() + 1);
+  return d.getTime();
+}
+
+// Axis label for a bucket starting at shifted ms `t`. Hourly buckets only
+// carry the date when the window spans more than one day.
+export function formatBucketLabel(t: number, unit: BucketUnit, multiDay = false): string {
+  const d = new Date(t);
+  const md = `${d.getUTCMonth() + 1}/${d.getUTCDate()}`;
+  if (unit === 'hour') {
+    const hm = `${String(d.getUTCHours()).padStart(2, '0')}:${String(d.getUTCMinutes()).padStart(2, '0')}`;
+    return multiDay ? `${md} ${hm}` : hm;
+  }
+  if (unit === 'day') return md;
+  if (unit === 'week') return `Wk ${md}`;
+  return d.toISOString().slice(0, 7);
+}
+
+// ---------------------------------------------------------------------------
+// Period-over-period comparison
+// ---------------------------------------------------------------------------
+
+// Same day-of-month `n` months away, clamped to the target month's last day.
+export const shiftMonths = (dateKey: string, n: number): string => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + n, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+};
+
+// Comparison window for an inclusive [start, end] date-key window:
+// the equally long window right before it, the same dates one month
+// earlier, or an equally long window starting at `customStart`.
+export function compareDateWindow(
+  mode: CompareMode,
+  window: { start: string; end: string },
+  customStart: string,
+): { start: string; end: string } | null {
+  const len = daysBetweenDateKeys(window.start, window.end) + 1;
+  if (mode === 'previous') return { start: addDays(window.start, -len), end: addDays(window.start, -1) };
+  if (mode === 'lastMonth') return { start: shiftMonths(window.start, -1), end: shiftMonths(window.end, -1) };
+  if (mode === 'custom' && customStart) return { start: customStart, end: addDays(customStart, len - 1) };
+  return null;
+}
+
+// How far (ms) to move a shifted-ms [startMs, endMs] chart window back to
+// reach its comparison window, or null when comparison is off / invalid.
+export function compareOffsetMs(
+  mode: CompareMode,
+  startMs: number,
+  endMs: number,
+  customStart: string,
+): number | null {
+  let offset: number | null = null;
+  if (mode === 'previous') offset = endMs - startMs + 1;
+  else if (mode === 'lastMonth') {
+    const d = new Date(startMs);
+    d.setUTCMonth(d.getUTCMonth() - 1);
+    offset = startMs - d.getTime();
+  } else if (mode === 'custom' && customStart) {
+    offset = startMs - Date.parse(customStart + 'T00:00:00Z');
+  }
+  return offset != null && offset > 0 ? offset : null;
+}
+
+export type StatDelta = { current: number; previous: number; label: string };
+export type CompareStats = Record<'totalUsers' | 'conversations' | 'dau' | 'mau', StatDelta | null>;
+
+export const COMPARE_MODE_LABELS: Record<CompareMode, string> = {
+  off: 'No comparison',
+  previous: 'vs previous period',
+  lastMonth: 'vs same period last month',
+  custom: 'vs custom period',
+};
+
+export const formatDateTime = (utcString: string, timeZone: string): string => {
+  const d = parseInTz(utcString, timeZone);
   const y = d.getUTCFullYear();
   const mo = String(d.getUTCMonth() + 1).padStart(2, '0');
   const da = String(d.getUTCDate()).padStart(2, '0');
@@ -89,9 +400,143 @@ export const formatDateTime = (utcString: string, offsetMs: number): string => {
   return `${y}-${mo}-${da} ${h}:${mi}`;
 };
 
+// First day of the MAU window ending on `dateKey`: the calendar month to date
+// in 'month' mode, otherwise the trailing 30 days.
+export const mauWindowStart = (dateKey: string, mode: MauMode): string =>
+  mode === 'month' ? `${dateKey.slice(0, 7)}-01` : addDays(dateKey, -29);
+
 export const formatRatio = (ratio: number, mau: number): string =>
   mau > 0 ? ratio.toFixed(3) : '—';
 
+// 95% Wilson score interval for successes / n, in percent. Unlike the normal
+// approximation it stays inside 0–100% and is sensible for tiny n.
+export function wilsonIntervalPct(successes: number, n: number, z = 1.96): [number, number] | null {
+  if (n <= 0) return null;
+  const p = successes / n;
+  const z2 = z * z;
+  const denom = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denom;
+  return [Math.max(0, center - half) * 100, Math.min(1, center + half) * 100];
+}
+
+// Kaplan–Meier survival estimate on whole days. `time` is days until the
+// event, or until observation stopped when `event` is false (right-censored);
+// censored subjects stay at risk on their last day. Stops at the last day
+// anyone is still at risk.
+export function kaplanMeier(
+  subjects: ReadonlyArray<{ time: number; event: boolean }>,
+  maxDay: number,
+): SurvivalPoint[] {
+  const days = subjects.map((s) => ({ day: Math.max(0, Math.floor(s.time)), event: s.event }));
+  const points: SurvivalPoint[] = [];
+  let survival = 1;
+  for (let day = 0; day <= maxDay; day++) {
+    const atRisk = days.filter((s) => s.day >= day).length;
+    if (atRisk === 0) break;
+    const events = days.filter((s) => s.day === day && s.event).length;
+    survival *= 1 - events / atRisk;
+    points.push({ day, survivalPct: survival * 100, atRisk, events });
+  }
+  return points;
+}
+
+// user_id -> set of YYYY-MM-DD days (in the selected tz) with at least one
+// timestamped row. Rows with an unparseable created_at are skipped.
+export function buildActiveDaysByUser(
+  rows: ReadonlyArray<{ user_id: string; created_at: string }>,
+  timeZone: string,
+): Map<string, Set<string>> {
+  const m = new Map<string, Set<string>>();
+  for (const r of rows) {
+    if (!Number.isFinite(new Date(r.created_at).getTime())) continue;
+    const day = toTzDateKey(r.created_at, timeZone);
+    let set = m.get(r.user_id);
+    if (!set) { set = new Set(); m.set(r.user_id, set); }
+    set.add(day);
+  }
+  return m;
+}
+
+// Per local day: conversation count and distinct users, plus per-user daily
+// counts for the single-user calendar.
+export type DailyActivity = {
+  conversations: Map<string, number>;
+  users: Map<string, number>;
+  byUser: Map<string, Map<string, number>>;
+};
+
+export function buildDailyActivity(
+  rows: Array<{ user_id: string; created_at: string }>,
+  timeZone: string,
+): DailyActivity {
+  const conversations = new Map<string, number>();
+  const userSets = new Map<string, Set<string>>();
+  const byUser = new Map<string, Map<string, number>>();
+  for (const r of rows) {
+    if (Number.isNaN(new Date(r.created_at).getTime())) continue;
+    const day = toTzDateKey(r.created_at, timeZone);
+    conversations.set(day, (conversations.get(day) ?? 0) + 1);
+    let set = userSets.get(day);
+    if (!set) { set = new Set(); userSets.set(day, set); }
+    set.add(r.user_id);
+    let days = byUser.get(r.user_id);
+    if (!days) { days = new Map(); byUser.set(r.user_id, days); }
+    days.set(day, (days.get(day) ?? 0) + 1);
+  }
+  const users = new Map<string, number>();
+  for (const [day, set] of userSets) users.set(day, set.size);
+  return { conversations, users, byUser };
+}
+
+// 7×24 grid (rows Monday..Sunday, columns local hour 0..23) of conversation
+// counts and distinct users, for entries whose local date lies in [start, end].
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export type HourWeekdayGrid = {
+  conversations: number[][];
+  users: number[][];
+};
+
+export function buildHourWeekdayGrid(
+  rows: Array<{ user_id: string; created_at: string }>,
+  timeZone: string,
+  range: { start: string; end: string },
+): HourWeekdayGrid {
+  const conversations = WEEKDAY_LABELS.map(() => new Array<number>(24).fill(0));
+  const userSets = WEEKDAY_LABELS.map(() => Array.from({ length: 24 }, () => new Set<string>()));
+  for (const r of rows) {
+    const t = new Date(r.created_at).getTime();
+    if (Number.isNaN(t)) continue;
+    const local = new Date(toTzMs(t, timeZone));
+    const day = local.toISOString().slice(0, 10);
+    if (range.start && day < range.start) continue;
+    if (range.end && day > range.end) continue;
+    const weekday = (local.getUTCDay() + 6) % 7;
+    const hour = local.getUTCHours();
+    conversations[weekday][hour] += 1;
+    userSets[weekday][hour].add(r.user_id);
+  }
+  return { conversations, users: userSets.map((row) => row.map((set) => set.size)) };
+}
+
+// Histogram of users by number of distinct active days inside the window of
+// `windowDays` days ending on `endKey` (index 0 = active on exactly 1 day).
+export function activeDayHistogram(
+  activeDaysByUser: Map<string, Set<string>>,
+  endKey: string,
+  windowDays: number,
+): number[] {
+  const startKey = addDays(endKey, -(windowDays - 1));
+  const histogram = new Array<number>(windowDays).fill(0);
+  for (const days of activeDaysByUser.values()) {
+    let n = 0;
+    for (const d of days) if (d >= startKey && d <= endKey) n += 1;
+    if (n > 0) histogram[n - 1] += 1;
+  }
+  return histogram;
+}
+
 export function aggregateCounts<T>(
   items: readonly T[],
   keyFn: (item: T) => string | null | undefined,
@@ -201,6 +646,9 @@ export function withOtherBucket(
   return [...head, { name: `Other (${tail.length})`, value: otherTotal }];
 }
 
+/** True for the synthetic "Other (N)" entry added by withOtherBucket / CountPieChart. */
+export const isOtherBucket = (name: string): boolean => /^Other \(\d+\)$/.test(name);
+
 export function extractLoginIpCountries(value: unknown): string[] {
   if (value == null) return [];
   if (Array.isArray(value)) return value.flatMap(extractLoginIpCountries);
@@ -227,12 +675,135 @@ export type MeaningfulEvent = {
   created_at: string;
 };
 
+export const MEANINGFUL_EVENT_TYPES: readonly MeaningfulEventType[] = [
+  'send_message',
+  'generate_cheatsheet',
+  'start_deep_learn_session',
+  'connect_canvas',
+  'upload_file',
+];
+
+export const MEANINGFUL_EVENT_LABELS: Record<MeaningfulEventType, string> = {
+  send_message: 'Send message',
+  generate_cheatsheet: 'Generate cheatsheet',
+  start_deep_learn_session: 'Deep learn session',
+  connect_canvas: 'Connect Canvas',
+  upload_file: 'Upload file',
+};
+
+const isMeaningfulEventType = (t: string): t is MeaningfulEventType =>
+  (MEANINGFUL_EVENT_TYPES as readonly string[]).includes(t);
+
+// Events of the requested types. `send_message` comes from
+// conversation_history unless the backend feed already carries it. Older
+// backends without an `events` feed only ever yield conversations, whatever
+// `types` asks for.
 export function collectMeaningfulEvents(
   stats: import('../../api/getUserInfo/stats').StatsResponse,
+  types: readonly MeaningfulEventType[] = MEANINGFUL_EVENT_TYPES,
 ): MeaningfulEvent[] {
   const events: MeaningfulEvent[] = [];
-  for (const c of stats.conversation_history || []) {
-    events.push({ user_id: c.user_id, event_type: 'send_message', created_at: c.created_at });
+  const fromConversations = () => {
+    for (const c of stats.conversation_history || []) {
+      events.push({ user_id: c.user_id, event_type: 'send_message', created_at: c.created_at });
+    }
+  };
+  if (!stats.events) {
+    fromConversations();
+    return events;
+  }
+  const wanted = new Set(types);
+  if (wanted.has('send_message') && !stats.events.some((e) => e.event_type === 'send_message')) {
+    fromConversations();
+  }
+  for (const e of stats.events) {
+    if (!isMeaningfulEventType(e.event_type) || !wanted.has(e.event_type)) continue;
+    events.push({ user_id: e.user_id, event_type: e.event_type, created_at: e.created_at });
   }
   return events;
 }
+
+// ---------------------------------------------------------------------------
+// Signup-relative retention
+// ---------------------------------------------------------------------------
+
+export function buildSignupDayByUser(
+  timeline: readonly import('../../api/getUserInfo/stats').UserTimeline[],
+  timeZone: string,
+  range?: { start: string; end: string },
+): Map<string, string> {
+  const start = range?.start || null;
+  const end = range?.end || null;
+  const signupDayByUser = new Map<string, string>();
+  for (const u of timeline) {
+    const day = toTzDateKey(u.created_at, timeZone);
+    if (start && day < start) continue;
+    if (end && day > end) continue;
+    if (!signupDayByUser.has(u.user_id)) signupDayByUser.set(u.user_id, day);
+  }
+  return signupDayByUser;
+}
+
+// user_id -> day offsets since signup (>= 1) on which the user had an event.
+export function buildActiveOffsetsByUser(
+  signupDayByUser: Map<string, string>,
+  events: readonly MeaningfulEvent[],
+  timeZone: string,
+): Map<string, Set<number>> {
+  const activeOnDayByUser = new Map<string, Set<number>>();
+  for (const e of events) {
+    const signupDay = signupDayByUser.get(e.user_id);
+    if (!signupDay) continue;
+    const diff = daysBetweenDateKeys(signupDay, toTzDateKey(e.created_at, timeZone));
+    if (diff < 1) continue;
+    let set = activeOnDayByUser.get(e.user_id);
+    if (!set) { set = new Set(); activeOnDayByUser.set(e.user_id, set); }
+    set.add(diff);
+  }
+  return activeOnDayByUser;
+}
+
+// Return retention for the given users, one point per period. Period n covers
+// day offsets ((n-1)·periodDays, n·periodDays], so periodDays = 1 gives
+// D1…Dn and periodDays = 7 gives W1…Wn. A user is eligible for period n once
+// n·periodDays full days have passed since signup.
+export function computeRetentionCurve(
+  userIds: Iterable<string>,
+  signupDayByUser: Map<string, string>,
+  activeOffsetsByUser: Map<string, Set<number>>,
+  today: string,
+  mode: RetentionMode,
+  maxPeriod: number = MAX_RETENTION_DAY,
+  periodDays = 1,
+): RetentionPoint[] {
+  const users: Array<{ userId: string; daysSinceSignup: number }> = [];
+  let maxDaysSinceSignup = -1;
+  for (const userId of userIds) {
+    const signupDay = signupDayByUser.get(userId);
+    if (!signupDay) continue;
+    const daysSinceSignup = daysBetweenDateKeys(signupDay, today);
+    users.push({ userId, daysSinceSignup });
+    if (daysSinceSignup > maxDaysSinceSignup) maxDaysSinceSignup = daysSinceSignup;
+  }
+
+  const points: RetentionPoint[] = [];
+  for (let n = 1; n <= maxPeriod; n++) {
+    const lo = (n - 1) * periodDays;
+    const hi = n * periodDays;
+    let eligible = 0;
+    let returned = 0;
+    for (const u of users) {
+      if (u.daysSinceSignup < hi) continue;
+      eligible += 1;
+      const days = activeOffsetsByUser.get(u.userId);
+      if (!days) continue;
+      let hit = false;
+      for (const d of days) {
+        if (d > lo && (mode === 'rolling' || d <= hi)) { hit = true; break; }
+      }
+      if (hit) returned += 1;
+    }
+    points.push({ day: n, ratePct: eligible > 0 ? (returned / eligible) * 100 : 0, returned, eligible, hasData: eligible > 0, mature: maxDaysSinceSignup >= hi });
+  }
+  return points;
+}
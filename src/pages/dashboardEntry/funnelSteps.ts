@@ -0,0 +1,31 @@
+// ---------------------------------------------------------------------------
+// Activation funnel step definitions and breakdowns. Shared by the Funnel tab
+// and the URL view state.
+// ---------------------------------------------------------------------------
+
+export type FunnelStepKind = 'first_conversation' | 'day_n_return' | 'active_days_first_week' | 'first_paid';
+
+export type FunnelStep = { id: number; kind: FunnelStepKind; param: number };
+
+export const FUNNEL_STEP_KINDS: Record<FunnelStepKind, { name: string; label: (param: number) => string; paramLabel: string; min: number; max: number }> = {
+  first_conversation: { name: 'First conversation within N hours', label: (h) => `First conversation within ${h}h`, paramLabel: 'hours', min: 1, max: 24 * 30 },
+  day_n_return: { name: 'Active on day N', label: (n) => `Active on D${n}`, paramLabel: 'day', min: 1, max: 30 },
+  active_days_first_week: { name: 'Active on ≥ N days in first week', label: (n) => `Active on ≥${n} days in first week`, paramLabel: 'days', min: 1, max: 7 },
+  first_paid: { name: 'First paid within N days', label: (d) => `First paid within ${d}d`, paramLabel: 'days', min: 1, max: 365 },
+};
+
+export const DEFAULT_FUNNEL_STEPS: FunnelStep[] = [
+  { id: 1, kind: 'first_conversation', param: 24 },
+  { id: 2, kind: 'day_n_return', param: 1 },
+  { id: 3, kind: 'active_days_first_week', param: 3 },
+  { id: 4, kind: 'first_paid', param: 30 },
+];
+
+export type FunnelBreakdown = 'none' | 'identity' | 'country' | 'acquisition';
+
+export const FUNNEL_BREAKDOWN_LABELS: Record<FunnelBreakdown, string> = {
+  none: 'No breakdown',
+  identity: 'Identity',
+  country: 'Country',
+  acquisition: 'Acquisition source',
+};
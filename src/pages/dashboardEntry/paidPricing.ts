@@ -0,0 +1,105 @@
+// ---------------------------------------------------------------------------
+// Prices for paid subscription records. The paid endpoint sends amount /
+// currency / interval when it has them; records without a price are looked up
+// in a price table kept in localStorage and edited from the Paid tab, keyed
+// by tier and billing_reason ('*' matches any reason).
+// ---------------------------------------------------------------------------
+import { PaidSubscription } from '../../api/getUserInfo/paid';
+
+export type BillingInterval = 'month' | 'year' | 'one_time';
+
+export const BILLING_INTERVALS: { key: BillingInterval; label: string }[] = [
+  { key: 'month', label: 'Monthly' },
+  { key: 'year', label: 'Yearly' },
+  { key: 'one_time', label: 'One-time' },
+];
+
+export const ANY_BILLING_REASON = '*';
+
+export type PriceEntry = {
+  tier: string;
+  billingReason: string;
+  amount: number;
+  currency: string;
+  interval: BillingInterval;
+};
+
+export type ResolvedPrice = {
+  amount: number;
+  currency: string;
+  interval: BillingInterval;
+  source: 'api' | 'table';
+};
+
+const LS_KEY = 'dashboard_price_table';
+
+const isInterval = (v: unknown): v is BillingInterval =>
+  BILLING_INTERVALS.some((i) => i.key === v);
+
+export function loadPriceTable(): PriceEntry[] {
+  try {
+    const raw = localStorage.getItem(LS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (e): e is PriceEntry =>
+        !!e &&
+        typeof e.tier === 'string' &&
+        typeof e.billingReason === 'string' &&
+        typeof e.amount === 'number' &&
+        Number.isFinite(e.amount) &&
+        typeof e.currency === 'string' &&
+        isInterval(e.interval),
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function storePriceTable(entries: PriceEntry[]) {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled: the table just won't survive a reload.
+  }
+}
+
+// Records that carry an amount but no interval: one-offs are one-time, and a
+// subscription covering most of a year is yearly.
+function inferInterval(sub: PaidSubscription): BillingInterval {
+  if (sub.billing_reason === 'one-off-payment') return 'one_time';
+  const start = sub.started_at ? new Date(sub.started_at).getTime() : NaN;
+  const end = sub.expires_at ? new Date(sub.expires_at).getTime() : NaN;
+  const days = (end - start) / (24 * 60 * 60 * 1000);
+  return Number.isFinite(days) && days >= 300 ? 'year' : 'month';
+}
+
+/** Price of one record, or null when neither the API nor the table knows it. */
+export function resolvePrice(sub: PaidSubscription, table: PriceEntry[]): ResolvedPrice | null {
+  if (sub.amount != null && Number.isFinite(sub.amount)) {
+    return {
+      amount: sub.amount,
+      currency: (sub.currency || 'USD').toUpperCase(),
+      interval: isInterval(sub.interval) ? sub.interval : inferInterval(sub),
+      source: 'api',
+    };
+  }
+  const entry =
+    table.find((e) => e.tier === sub.tier && e.billingReason === sub.billing_reason) ??
+    table.find((e) => e.tier === sub.tier && e.billingReason === ANY_BILLING_REASON);
+  if (!entry) return null;
+  return { amount: entry.amount, currency: entry.currency.toUpperCase(), interval: entry.interval, source: 'table' };
+}
+
+/** Contribution to MRR while the record is active; one-time payments add none. */
+export const monthlyAmount = (p: ResolvedPrice): number =>
+  p.interval === 'year' ? p.amount / 12 : p.interval === 'month' ? p.amount : 0;
+
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${amount.toFixed(0)} ${currency}`;
+  }
+};
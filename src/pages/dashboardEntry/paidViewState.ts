@@ -0,0 +1,83 @@
+// ---------------------------------------------------------------------------
+// Filter / sort state of the Paid tab. Owned by DashboardEntry so it can be
+// synced to the URL.
+// ---------------------------------------------------------------------------
+import { addDays, todayTzKey } from './dashboardUtils';
+
+export type SortMode =
+  | 'first_paid_desc'
+  | 'first_paid_asc'
+  | 'total_days_desc'
+  | 'total_days_asc'
+  | 'signup_to_paid_asc'
+  | 'signup_to_paid_desc';
+
+export const SORT_LABELS: Record<SortMode, string> = {
+  first_paid_desc: '首次付费时间 ↓ (最新)',
+  first_paid_asc: '首次付费时间 ↑ (最早)',
+  total_days_desc: '累计付费时长 ↓ (最长)',
+  total_days_asc: '累计付费时长 ↑ (最短)',
+  signup_to_paid_asc: '注册→首次付费 ↑ (最快)',
+  signup_to_paid_desc: '注册→首次付费 ↓ (最慢)',
+};
+
+export const PAID_SORT_MODES = Object.keys(SORT_LABELS) as SortMode[];
+
+// Granularity options for the paid-rate chart
+export const GRANULARITY_OPTIONS = [
+  { label: '1d', days: 1 },
+  { label: '3d', days: 3 },
+  { label: '7d', days: 7 },
+] as const;
+export type GranularityDays = typeof GRANULARITY_OPTIONS[number]['days'];
+export const PAID_RATE_GRANULARITIES: GranularityDays[] = GRANULARITY_OPTIONS.map((o) => o.days);
+
+export type SurvivalSplit = 'none' | 'tier' | 'firstReason' | 'country' | 'source';
+
+export const SURVIVAL_SPLITS: { key: SurvivalSplit; label: string }[] = [
+  { key: 'none', label: '全部' },
+  { key: 'tier', label: 'Tier' },
+  { key: 'firstReason', label: '首次付费方式' },
+  { key: 'country', label: '地区' },
+  { key: 'source', label: '获客渠道' },
+];
+
+export const PAID_SURVIVAL_SPLITS = SURVIVAL_SPLITS.map((s) => s.key);
+
+export type PaidViewState = {
+  sortMode: SortMode;
+  paidRateGranularity: GranularityDays;
+  retentionMode: 'exact' | 'rolling';
+  // broad = all paid events incl. renewals; strict = first-time only, no repeat one-offs
+  paidRateView: 'broad' | 'strict';
+  paidRateStartDate: string;
+  paidRateEndDate: string;
+  userFilter: 'all' | 'active' | 'churned';
+  revenueGranularity: 'day' | 'month';
+  // '' = the currency most records are priced in
+  revenueCurrency: string;
+  // YYYY-MM shown in the MRR waterfall; '' = latest month
+  mrrMonth: string;
+  // Falls back to paid days while no record is priced
+  ltvMetric: 'days' | 'revenue';
+  survivalSplit: SurvivalSplit;
+};
+
+// Default: paid-rate window is the last 30 days up to today.
+export const defaultPaidView = (timeZone: string): PaidViewState => {
+  const today = todayTzKey(timeZone);
+  return {
+    sortMode: 'first_paid_desc',
+    paidRateGranularity: 1,
+    retentionMode: 'exact',
+    paidRateView: 'broad',
+    paidRateStartDate: addDays(today, -30),
+    paidRateEndDate: today,
+    userFilter: 'all',
+    revenueGranularity: 'month',
+    revenueCurrency: '',
+    mrrMonth: '',
+    ltvMetric: 'revenue',
+    survivalSplit: 'none',
+  };
+};
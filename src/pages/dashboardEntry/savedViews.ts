@@ -0,0 +1,47 @@
+// ---------------------------------------------------------------------------
+// Named dashboard views, persisted in localStorage per role. A view is stored
+// as its deep-link URL (see dashboardUrlState), so defaults that are relative
+// to today ("last 30 days") stay relative when the view is reopened.
+// ---------------------------------------------------------------------------
+
+export type SavedView = { id: string; name: string; url: string };
+
+export type SavedViewsStore = { views: SavedView[]; defaultId: string | null };
+
+const LS_PREFIX = 'dashboard_saved_views_';
+
+const EMPTY_STORE: SavedViewsStore = { views: [], defaultId: null };
+
+export function loadSavedViews(role: string): SavedViewsStore {
+  try {
+    const raw = localStorage.getItem(LS_PREFIX + role);
+    if (!raw) return EMPTY_STORE;
+    const parsed = JSON.parse(raw) as Partial<SavedViewsStore>;
+    const views = Array.isArray(parsed.views)
+      ? parsed.views.filter(
+          (v): v is SavedView =>
+            !!v && typeof v.id === 'string' && typeof v.name === 'string' && typeof v.url === 'string',
+        )
+      : [];
+    const defaultId = views.some((v) => v.id === parsed.defaultId) ? parsed.defaultId ?? null : null;
+    return { views, defaultId };
+  } catch {
+    return EMPTY_STORE;
+  }
+}
+
+export function storeSavedViews(role: string, store: SavedViewsStore) {
+  try {
+    localStorage.setItem(LS_PREFIX + role, JSON.stringify(store));
+  } catch {
+    // Storage full or disabled: views just won't survive a reload.
+  }
+}
+
+export function defaultSavedView(role: string): SavedView | null {
+  const { views, defaultId } = loadSavedViews(role);
+  return views.find((v) => v.id === defaultId) ?? null;
+}
+
+export const newSavedViewId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,170 @@
+// ---------------------------------------------------------------------------
+// Global user segment. The filter bar narrows every tab to the users matching
+// ALL active dimensions (any of the picked values within one dimension); the
+// raw API responses are cut down to that subset before any metric is built,
+// so each tab recomputes without knowing a segment exists.
+// ---------------------------------------------------------------------------
+import { StatsResponse, UserAnalytics, UserPollData } from '../../api/getUserInfo/stats';
+import { PaidStatsResponse, bucketOfBillingReason } from '../../api/getUserInfo/paid';
+import { CountEntry, extractStringLeaves, extractLoginIpCountries, toTzDateKey } from './dashboardUtils';
+
+export type SegmentDimension =
+  | 'country'
+  | 'nationality'
+  | 'identity'
+  | 'initialFunction'
+  | 'acquisitionSource'
+  | 'loginCountry';
+
+export type PaidStatus = 'any' | 'paid' | 'free';
+
+export type SegmentFilter = Record<SegmentDimension, string[]> & {
+  signup: { start: string; end: string };
+  paid: PaidStatus;
+};
+
+// A named filter on the Compare tab.
+export type CompareSegment = { id: number; name: string; filter: SegmentFilter };
+
+export const MIN_COMPARE_SEGMENTS = 2;
+export const MAX_COMPARE_SEGMENTS = 4;
+
+export const SEGMENT_DIMENSIONS: { key: SegmentDimension; label: string }[] = [
+  { key: 'country', label: 'Country' },
+  { key: 'nationality', label: 'Nationality' },
+  { key: 'identity', label: 'Identity' },
+  { key: 'initialFunction', label: 'Initial function' },
+  { key: 'acquisitionSource', label: 'Acquisition source' },
+  { key: 'loginCountry', label: 'Login IP country' },
+];
+
+export const PAID_STATUS_LABELS: Record<PaidStatus, string> = {
+  any: 'Any plan',
+  paid: 'Paid',
+  free: 'Never paid',
+};
+
+export const EMPTY_SEGMENT: SegmentFilter = {
+  country: [],
+  nationality: [],
+  identity: [],
+  initialFunction: [],
+  acquisitionSource: [],
+  loginCountry: [],
+  signup: { start: '', end: '' },
+  paid: 'any',
+};
+
+export function isSegmentActive(f: SegmentFilter): boolean {
+  return (
+    SEGMENT_DIMENSIONS.some(({ key }) => f[key].length > 0) ||
+    !!f.signup.start ||
+    !!f.signup.end ||
+    f.paid !== 'any'
+  );
+}
+
+const trimmed = (s: string | null | undefined): string[] => {
+  const t = s?.trim();
+  return t ? [t] : [];
+};
+
+// Values a user has for one dimension, normalized the same way the Analytics
+// and Poll Data tabs count them (so option counts match those charts).
+export function segmentValuesOf(
+  dim: SegmentDimension,
+  analytics: UserAnalytics | undefined,
+  poll: UserPollData | undefined,
+): string[] {
+  switch (dim) {
+    case 'country': return trimmed(analytics?.country);
+    case 'nationality': return trimmed(analytics?.nationality);
+    case 'identity': return trimmed(analytics?.identity);
+    case 'initialFunction': return trimmed(analytics?.initial_used_function);
+    case 'acquisitionSource': return [...new Set(extractStringLeaves(poll?.user_acquisition_sources))];
+    case 'loginCountry': return [...new Set(extractLoginIpCountries(poll?.login_ip))];
+  }
+}
+
+/** Distinct values per dimension with user counts, for the filter menus. */
+export function segmentOptions(stats: StatsResponse): Record<SegmentDimension, CountEntry[]> {
+  const pollByUid = new Map((stats.user_poll_data ?? []).map((p) => [p.user_id, p]));
+  const analyticsByUid = new Map((stats.user_analytics ?? []).map((a) => [a.user_id, a]));
+  const uids = new Set([...analyticsByUid.keys(), ...pollByUid.keys()]);
+  const out = {} as Record<SegmentDimension, CountEntry[]>;
+  for (const { key } of SEGMENT_DIMENSIONS) {
+    const counts = new Map<string, number>();
+    for (const uid of uids) {
+      for (const v of segmentValuesOf(key, analyticsByUid.get(uid), pollByUid.get(uid))) {
+        counts.set(v, (counts.get(v) ?? 0) + 1);
+      }
+    }
+    out[key] = Array.from(counts.entries())
+      .map(([name, value]) => ({ name, value }))
+      .sort((a, b) => b.value - a.value);
+  }
+  return out;
+}
+
+/**
+ * user_ids in the segment, or null when no filter is active. The paid
+ * status filter is admin-only and is ignored for other roles or when
+ * `paidStats` isn't available.
+ */
+export function buildSegmentUserIds(
+  stats: StatsResponse,
+  paidStats: PaidStatsResponse | null,
+  filter: SegmentFilter,
+  timeZone: string,
+  role: string,
+): Set<string> | null {
+  if (role !== 'admin') filter = { ...filter, paid: 'any' };
+  if (!isSegmentActive(filter)) return null;
+  const analyticsByUid = new Map((stats.user_analytics ?? []).map((a) => [a.user_id, a]));
+  const pollByUid = new Map((stats.user_poll_data ?? []).map((p) => [p.user_id, p]));
+  const paidUids = paidStats
+    ? new Set(
+        (paidStats.subscriptions ?? [])
+          .filter((s) => bucketOfBillingReason(s.billing_reason) === 'paid')
+          .map((s) => s.user_id),
+      )
+    : null;
+  const activeDims = SEGMENT_DIMENSIONS.filter(({ key }) => filter[key].length > 0);
+
+  const ids = new Set<string>();
+  for (const u of stats.all_users_timeline ?? []) {
+    if (filter.signup.start || filter.signup.end) {
+      const day = toTzDateKey(u.created_at, timeZone);
+      if (filter.signup.start && day < filter.signup.start) continue;
+      if (filter.signup.end && day > filter.signup.end) continue;
+    }
+    if (paidUids && filter.paid !== 'any' && paidUids.has(u.user_id) !== (filter.paid === 'paid')) continue;
+    const analytics = analyticsByUid.get(u.user_id);
+    const poll = pollByUid.get(u.user_id);
+    const matches = activeDims.every(({ key }) =>
+      segmentValuesOf(key, analytics, poll).some((v) => filter[key].includes(v)),
+    );
+    if (matches) ids.add(u.user_id);
+  }
+  return ids;
+}
+
+export function scopeStats(stats: StatsResponse, ids: Set<string>): StatsResponse {
+  const keep = <T extends { user_id: string }>(rows: T[] | undefined) => rows?.filter((r) => ids.has(r.user_id));
+  const timeline = keep(stats.all_users_timeline) ?? [];
+  return {
+    ...stats,
+    total_users: timeline.length,
+    latest_users: keep(stats.latest_users) ?? [],
+    all_users_basic: keep(stats.all_users_basic),
+    conversation_history: keep(stats.conversation_history) ?? [],
+    all_users_timeline: timeline,
+    user_analytics: keep(stats.user_analytics),
+    user_poll_data: keep(stats.user_poll_data),
+    events: keep(stats.events),
+  };
+}
+
+export function scopePaidStats(paidStats: PaidStatsResponse, ids: Set<string>): PaidStatsResponse {
+  return { ...paidStats, subscriptions: (paidStats.subscriptions ?? []).filter((s) => ids.has(s.user_id)) };
+}